@@ -1,18 +1,221 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import MapArea from "./components/MapArea";
+import type { MapEdit } from "./components/MapArea";
 import Sidebar from "./components/Sidebar";
-import type { RouteData, Coordinate } from "./services/routing";
+import NavigationBanner from "./components/NavigationBanner";
+import { routeLines } from "./services/routing";
+import type { RouteData, Coordinate, TaskProgress } from "./services/routing";
+import type { OfflineNetworkInfo } from "./services/osmImport";
+import { runInWorker } from "./services/workerClient";
+import { loadZones, saveZones } from "./services/zones";
+import type { AvoidZone, ZoneShape } from "./services/zones";
+import type { IsochroneResult } from "./services/isochrone";
+import { parseRouteFile, routeFileFormat } from "./services/routeFiles";
+import type { ImportedTrack } from "./services/routeFiles";
+import { localGazetteer } from "./services/geocoding";
+import type { DemTileInfo } from "./services/elevation";
+import type { SearchTrace } from "./services/dijkstra";
+import { addElevation } from "./services/engines";
+import { gpsSource, RouteTracker, TrackReplay } from "./services/navigation";
+import type { NavProgress, PositionSource } from "./services/navigation";
+import type { TileBounds } from "./services/tileCache";
+
+const REROUTE_RETRY_MS = 10000; // a re-route that found nothing is tried again after this
 
 function App() {
-  const [routeData, setRouteData] = useState<RouteData | null>(null);
+  const [routes, setRoutes] = useState<RouteData[]>([]);
+  const [selectedRoute, setSelectedRoute] = useState(0);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [userLocation, setUserLocation] = useState<Coordinate | null>(null);
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [importedNetwork, setImportedNetwork] = useState<OfflineNetworkInfo | null>(null);
+  const [importProgress, setImportProgress] = useState<TaskProgress | null>(null);
+  const [zones, setZones] = useState<AvoidZone[]>(loadZones);
+  const [drawing, setDrawing] = useState<ZoneShape["type"] | null>(null);
+  const [fitRoutes, setFitRoutes] = useState(true);
+  const [isochrones, setIsochrones] = useState<IsochroneResult | null>(null);
+  const [importedTrack, setImportedTrack] = useState<ImportedTrack | null>(null);
+  const [viewport, setViewport] = useState<TileBounds | null>(null);
+  const [demTiles, setDemTiles] = useState<DemTileInfo[]>([]);
+  const [elevationHover, setElevationHover] = useState<Coordinate | null>(null);
+  const [searchTrace, setSearchTrace] = useState<SearchTrace | null>(null);
+  const [navigation, setNavigation] = useState<{ source: PositionSource; replay: TrackReplay | null } | null>(null);
+  const [navProgress, setNavProgress] = useState<NavProgress | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const trackerRef = useRef<RouteTracker | null>(null);
+  const reroutedAt = useRef(0);
+  // The Sidebar owns the waypoints; map edits are forwarded to it through here
+  const mapEditHandlerRef = useRef<((edit: MapEdit) => void) | null>(null);
+
+  useEffect(() => saveZones(zones), [zones]);
+
+  // Each new route (picked, or re-routed on the way) is followed from its start
+  const activeRoute = routes[selectedRoute] ?? null;
+  useEffect(() => {
+    trackerRef.current = activeRoute ? new RouteTracker(activeRoute) : null;
+    reroutedAt.current = 0;
+  }, [activeRoute]);
+
+  // Fixes drive the tracker; leaving the route for a few of them re-routes from where we are
+  useEffect(() => {
+    if (!navigation) return;
+    return navigation.source.start(
+      (fix) => {
+        const progress = trackerRef.current?.update(fix);
+        if (!progress) return;
+        setNavProgress(progress);
+        if (progress.reroute && Date.now() - reroutedAt.current > REROUTE_RETRY_MS) {
+          reroutedAt.current = Date.now();
+          mapEditHandlerRef.current?.({ type: "reroute", coord: progress.position, nextWaypoint: progress.nextWaypoint });
+        }
+      },
+      (message) => {
+        alert(message);
+        setNavigation(null);
+      }
+    );
+  }, [navigation]);
+
+  const handleRoutesCalculated = (data: RouteData[], fit = true) => {
+    setRoutes(data);
+    setFitRoutes(fit);
+    handleSelectRoute(0);
+  };
+
+  const handleSelectRoute = (index: number) => {
+    setSelectedRoute(index);
+    setHoveredStep(null);
+    setSelectedStep(null);
+  };
+
+  // Offline extract: the local engine routes on it until it is unloaded
+  const handleNetworkFile = async (file: File) => {
+    setImportProgress({ stage: "import", done: 0, total: file.size });
+    try {
+      const network = await runInWorker({ type: "import", file }, { onProgress: setImportProgress });
+      localGazetteer.setPlaces(network.places);
+      setImportedNetwork(network);
+    } catch (error) {
+      console.error("OSM import failed:", error);
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+    setImportProgress(null);
+  };
+
+  const handleNetworkUnload = async () => {
+    try {
+      await runInWorker({ type: "unload" });
+      localGazetteer.setPlaces([]);
+      setImportedNetwork(null);
+    } catch (error) {
+      console.error("OSM unload failed:", error);
+      alert(`Could not unload the road network: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // GPX, GeoJSON or KML route: shown beside the computed one for comparison
+  const handleTrackFile = async (file: File) => {
+    try {
+      setImportedTrack(parseRouteFile(await file.text(), file.name));
+    } catch (error) {
+      console.error("Route import failed:", error);
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // SRTM / GeoTIFF heights: shown for every route, and used by climb-aware local routing
+  const handleElevationFiles = async (files: File[]) => {
+    const loaded: DemTileInfo[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(await runInWorker({ type: "elevation", file }));
+      } catch (error) {
+        console.error("Elevation import failed:", error);
+        alert(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (loaded.length === 0) return;
+    setDemTiles(prev => [...prev.filter(t => !loaded.some(l => l.name === t.name)), ...loaded]);
+    // The route on screen gets its profile without being recomputed
+    const annotated = await addElevation(routes);
+    setRoutes(current => (current === routes ? annotated : current));
+  };
+
+  const handleElevationClear = async () => {
+    try {
+      await runInWorker({ type: "clearElevation" });
+      setDemTiles([]);
+      setRoutes(current => current.map(route => ({ ...route, elevation: undefined })));
+    } catch (error) {
+      console.error("Elevation clear failed:", error);
+      alert(`Could not clear the elevation tiles: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Live GPS, or a replay of the imported track (else the route itself) for testing at a desk
+  const startNavigation = (simulate: boolean) => {
+    if (!activeRoute) return;
+    let replay: TrackReplay | null = null;
+    if (simulate) {
+      const pace = activeRoute.duration > 0 ? activeRoute.distance / activeRoute.duration : 10;
+      replay = new TrackReplay(importedTrack?.geometry ?? routeLines(activeRoute).flat(), pace, replaySpeed);
+    }
+    setNavProgress(null);
+    setNavigation({ source: replay ?? gpsSource, replay });
+  };
+
+  const stopNavigation = () => {
+    setNavigation(null);
+    setNavProgress(null);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    navigation?.replay?.setSpeed(speed);
+    setReplaySpeed(speed);
+  };
+
+  const handleZoneDrawn = (shape: ZoneShape) => {
+    setZones(prev => [...prev, { id: Date.now(), name: `Zone ${prev.length + 1}`, enabled: true, shape }]);
+    setDrawing(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const dem = [...e.dataTransfer.files].filter(f => /\.(hgt|tiff?)$/i.test(f.name));
+    if (dem.length > 0) return handleElevationFiles(dem);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (routeFileFormat(file.name)) handleTrackFile(file);
+    else handleNetworkFile(file);
+  };
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden flex">
-      {/* Background Map */}
-      <div className="absolute inset-0 z-0">
-        <MapArea routeData={routeData} userLocation={userLocation} />
+      {/* Background Map (also accepts dropped OSM and route files) */}
+      <div className="absolute inset-0 z-0" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+        <MapArea
+          routes={routes}
+          selectedRoute={selectedRoute}
+          onSelectRoute={handleSelectRoute}
+          userLocation={userLocation}
+          highlightedStep={hoveredStep ?? selectedStep}
+          focusedStep={selectedStep}
+          coverage={importedNetwork?.bounds ?? null}
+          zones={zones}
+          drawing={drawing}
+          onZoneDrawn={handleZoneDrawn}
+          onDrawCancel={() => setDrawing(null)}
+          onMapEdit={(edit) => mapEditHandlerRef.current?.(edit)}
+          fitRoutes={fitRoutes}
+          isochrones={isochrones}
+          track={importedTrack}
+          onViewportChange={setViewport}
+          elevationPoint={elevationHover}
+          navigation={navigation && navProgress}
+          searchTrace={searchTrace}
+          onSearchTraceClose={() => setSearchTrace(null)}
+        />
       </div>
 
       {/* Foreground UI */}
@@ -20,11 +223,48 @@ function App() {
         <Sidebar
           isOpen={isSidebarOpen}
           setIsOpen={setIsSidebarOpen}
-          onRouteCalculated={setRouteData}
+          routes={routes}
+          selectedRoute={selectedRoute}
+          onRoutesCalculated={handleRoutesCalculated}
+          onSelectRoute={handleSelectRoute}
           onUserLocation={setUserLocation}
+          activeStep={hoveredStep ?? selectedStep}
+          onStepHover={setHoveredStep}
+          onStepSelect={setSelectedStep}
+          offlineNetwork={importedNetwork}
+          importProgress={importProgress}
+          onNetworkFile={handleNetworkFile}
+          onNetworkUnload={handleNetworkUnload}
+          zones={zones}
+          onZonesChange={setZones}
+          drawing={drawing}
+          onDraw={setDrawing}
+          mapEditHandlerRef={mapEditHandlerRef}
+          isochrones={isochrones}
+          onIsochrones={setIsochrones}
+          importedTrack={importedTrack}
+          onTrackFile={handleTrackFile}
+          onTrackClear={() => setImportedTrack(null)}
+          searchBias={{ viewport: viewport ?? undefined, location: userLocation ?? undefined }}
+          demTiles={demTiles}
+          onElevationFiles={handleElevationFiles}
+          onElevationClear={handleElevationClear}
+          onElevationHover={setElevationHover}
+          onNavigate={startNavigation}
+          navigating={navigation !== null}
+          onSearchTrace={setSearchTrace}
         />
 
         {/* We can add other floating elements here like a top navbar or floating action buttons */}
+        {navigation && activeRoute && (
+          <NavigationBanner
+            route={activeRoute}
+            progress={navProgress}
+            replaySpeed={navigation.replay ? replaySpeed : null}
+            onReplaySpeed={changeReplaySpeed}
+            onStop={stopNavigation}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  ROUTE_FILE_TYPES,
+  computeDijkstraRoute,
+  computeIsochrones,
+  computeLocalMatrix,
+  exportRoute,
+  importOsmFile,
+  isochronesToGeoJSON,
+  matrixToCsv,
+  matrixToJson,
+  parseLocationsCsv,
+  setLogger,
+  setOfflineNetwork,
+} from '../core';
+import type {
+  Avoidance,
+  Coordinate,
+  IsochroneMetric,
+  LocalSearch,
+  LocatedPlace,
+  Objective,
+  ProfileId,
+  RouteFileFormat,
+  RouteOptions,
+  TaskProgress,
+} from '../core';
+
+// ============================================================
+// COMMAND LINE
+// ============================================================
+const USAGE = `Usage: city-route <command> [options]
+
+Commands:
+  route      --from lat,lng --to lat,lng [--via lat,lng ...]
+  matrix     --sources "lat,lng;lat,lng;..." [--destinations "lat,lng;..."]
+             or --csv origins.csv [--destinations-csv destinations.csv]
+             (rows of name,lat,lng; without destinations, origins to origins)
+  isochrone  --origin lat,lng --budgets 10,20,30 [--metric time|distance]
+             (minutes for time, kilometers for distance)
+
+Options:
+  --graph <file>      OSM extract: .osm / .xml, .pbf or Overpass .json
+                      (without one, road data is fetched from Overpass)
+  --profile <id>      car | bike | foot (default car)
+  --objective <o>     fastest | shortest (default fastest)
+  --search <s>        astar | alt, route only (default astar)
+  --avoid <list>      comma-separated: motorway, toll, ferry, unpaved
+  --format <f>        route: geojson | gpx | kml | json (default geojson)
+                      matrix: json | csv (default json)
+                      isochrone: geojson | json (default geojson)
+  --output <file>     write the result there instead of to stdout
+  --verbose           log progress to stderr
+  --help              show this text
+`;
+
+const COMMANDS = ['route', 'matrix', 'isochrone'] as const;
+type Command = (typeof COMMANDS)[number];
+
+const PROFILE_IDS: ProfileId[] = ['car', 'bike', 'foot'];
+const OBJECTIVES: Objective[] = ['fastest', 'shortest'];
+const SEARCHES: LocalSearch[] = ['astar', 'alt'];
+const AVOIDANCES: Avoidance[] = ['motorway', 'toll', 'ferry', 'unpaved'];
+const METRICS: IsochroneMetric[] = ['time', 'distance'];
+
+// Bad input: reported with the usage hint, exit code 2
+class UsageError extends Error {}
+
+function parseCoordinate(text: string, flag: string): Coordinate {
+  const [lat, lng] = text.split(',').map(v => Number(v.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new UsageError(`--${flag} expects "lat,lng", got "${text}"`);
+  }
+  return { lat, lng };
+}
+
+const parseCoordinates = (text: string, flag: string) =>
+  text.split(';').filter(part => part.trim()).map(part => parseCoordinate(part, flag));
+
+function oneOf<T extends string>(value: string, allowed: readonly T[], flag: string): T {
+  if (!allowed.includes(value as T)) throw new UsageError(`--${flag} must be one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function required(value: string | undefined, flag: string): string {
+  if (!value) throw new UsageError(`--${flag} is required`);
+  return value;
+}
+
+const parse = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    via: { type: 'string', multiple: true },
+    sources: { type: 'string' },
+    destinations: { type: 'string' },
+    csv: { type: 'string' },
+    'destinations-csv': { type: 'string' },
+    origin: { type: 'string' },
+    budgets: { type: 'string' },
+    metric: { type: 'string' },
+    graph: { type: 'string' },
+    profile: { type: 'string' },
+    objective: { type: 'string' },
+    search: { type: 'string' },
+    avoid: { type: 'string' },
+    format: { type: 'string' },
+    output: { type: 'string' },
+    verbose: { type: 'boolean' },
+    help: { type: 'boolean' },
+  },
+});
+
+type Flags = ReturnType<typeof parse>['values'];
+
+// Progress goes to stderr, and only with --verbose
+const reporter = ({ verbose }: Flags) => ({
+  onProgress: ({ stage, done, total }: TaskProgress) => {
+    if (verbose) process.stderr.write(`${stage}: ${done}${total ? ` / ${total}` : ''}\n`);
+  },
+});
+
+// ============================================================
+// COMMANDS
+// ============================================================
+// Every search after this stays on the extract instead of querying Overpass
+async function loadGraph(path: string) {
+  const bytes = await readFile(path);
+  const network = await importOsmFile(new File([bytes], basename(path)));
+  setOfflineNetwork(network);
+}
+
+async function route(values: Flags, options: RouteOptions): Promise<string> {
+  const waypoints = [
+    parseCoordinate(required(values.from, 'from'), 'from'),
+    ...(values.via ?? []).map(v => parseCoordinate(v, 'via')),
+    parseCoordinate(required(values.to, 'to'), 'to'),
+  ];
+  const format = oneOf(values.format ?? 'geojson', ['json', ...(Object.keys(ROUTE_FILE_TYPES) as RouteFileFormat[])], 'format');
+
+  const routes = await computeDijkstraRoute(waypoints, options, reporter(values));
+  if (routes.length === 0) throw new Error('No route found between these points');
+  return format === 'json' ? JSON.stringify(routes, null, 2) : exportRoute(routes[0], [], format);
+}
+
+// Named places from a CSV; addresses would need a geocoder, which is not available here
+async function readLocations(path: string, flag: string): Promise<LocatedPlace[]> {
+  let locations;
+  try {
+    locations = parseLocationsCsv(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`--${flag} ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  const missing = locations.filter(l => !l.coordinate);
+  if (missing.length > 0) {
+    throw new UsageError(`--${flag} ${path}: ${missing.length === 1 ? '1 row has' : `${missing.length} rows have`} an address but no coordinates (first: "${missing[0].name}")`);
+  }
+  return locations.map(l => ({ name: l.name, ...l.coordinate! }));
+}
+
+const named = (coordinates: Coordinate[]): LocatedPlace[] =>
+  coordinates.map(c => ({ name: `${c.lat.toFixed(5)}, ${c.lng.toFixed(5)}`, ...c }));
+
+async function matrix(values: Flags, options: RouteOptions): Promise<string> {
+  const sources = values.csv
+    ? await readLocations(values.csv, 'csv')
+    : named(parseCoordinates(required(values.sources, 'sources'), 'sources'));
+  const destinations = values['destinations-csv']
+    ? await readLocations(values['destinations-csv'], 'destinations-csv')
+    : values.destinations ? named(parseCoordinates(values.destinations, 'destinations')) : sources;
+  const format = oneOf(values.format ?? 'json', ['json', 'csv'], 'format');
+
+  const costs = await computeLocalMatrix(sources, destinations, options, reporter(values));
+  if (!costs) throw new Error('These locations could not be placed on the road network');
+  const result = { ...costs, sources, destinations, engine: 'local' as const, profile: options.profile, objective: options.objective };
+  return format === 'csv' ? matrixToCsv(result) : matrixToJson(result);
+}
+
+async function isochrone(values: Flags, options: RouteOptions): Promise<string> {
+  const origin = parseCoordinate(required(values.origin, 'origin'), 'origin');
+  const metric = oneOf(values.metric ?? 'time', METRICS, 'metric');
+  const scale = metric === 'time' ? 60 : 1000;
+  const budgets = required(values.budgets, 'budgets').split(',').map(v => Number(v) * scale);
+  if (budgets.some(b => !Number.isFinite(b) || b <= 0)) throw new UsageError('--budgets expects positive numbers, e.g. 10,20,30');
+  const format = oneOf(values.format ?? 'geojson', ['geojson', 'json'], 'format');
+
+  const result = await computeIsochrones(origin, [...new Set(budgets)].sort((a, b) => a - b), metric, options, reporter(values));
+  if (!result) throw new Error('The origin could not be placed on the road network');
+  return format === 'json' ? JSON.stringify(result, null, 2) : isochronesToGeoJSON(result);
+}
+
+const RUN: Record<Command, (values: Flags, options: RouteOptions) => Promise<string>> = { route, matrix, isochrone };
+
+async function main(): Promise<number> {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(process.argv.slice(2));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  const command = positionals[0] as Command | undefined;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command "${command}"`);
+
+  // stdout carries the result only
+  const quiet = () => {};
+  setLogger({ info: values.verbose ? console.error : quiet, warn: console.error, error: values.verbose ? console.error : quiet });
+
+  const options: RouteOptions = {
+    profile: oneOf(values.profile ?? 'car', PROFILE_IDS, 'profile'),
+    objective: oneOf(values.objective ?? 'fastest', OBJECTIVES, 'objective'),
+    search: oneOf(values.search ?? 'astar', SEARCHES, 'search'),
+    avoid: (values.avoid ?? '').split(',').filter(a => a.trim()).map(a => oneOf(a.trim(), AVOIDANCES, 'avoid')),
+  };
+
+  if (values.graph) await loadGraph(values.graph);
+  const output = await RUN[command](values, options);
+  if (values.output) await writeFile(values.output, output);
+  else process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  return 0;
+}
+
+// A reader that stops early (| head) is not an error
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EPIPE') throw error;
+  process.exit(0);
+});
+
+// exitCode rather than exit(): a piped stdout may still be draining
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`city-route: ${error instanceof Error ? error.message : error}\n`);
+    if (error instanceof UsageError) process.stderr.write('Run "city-route --help" for usage.\n');
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+);
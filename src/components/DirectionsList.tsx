@@ -0,0 +1,69 @@
+import { ArrowUp, ArrowUpLeft, ArrowUpRight, CornerUpLeft, CornerUpRight, Flag, Navigation2, RefreshCw, RotateCcw } from 'lucide-react';
+import type { RouteStep } from '../services/routing';
+import { formatDistance, formatDuration } from '../utils/format';
+
+interface DirectionsListProps {
+  steps: RouteStep[];
+  activeStep: number | null;
+  onStepHover: (index: number | null) => void;
+  onStepSelect: (index: number) => void;
+}
+
+// Pick a lucide icon from the OSRM maneuver type/modifier pair
+export const ManeuverIcon = ({ step }: { step: RouteStep }) => {
+  const { type, modifier } = step.maneuver;
+  const cls = 'w-4 h-4';
+
+  if (type === 'depart') return <Navigation2 className={cls} />;
+  if (type === 'arrive') return <Flag className={cls} />;
+  if (type === 'roundabout' || type === 'rotary' || type === 'exit roundabout') return <RefreshCw className={cls} />;
+
+  switch (modifier) {
+    case 'uturn': return <RotateCcw className={cls} />;
+    case 'left':
+    case 'sharp left': return <CornerUpLeft className={cls} />;
+    case 'right':
+    case 'sharp right': return <CornerUpRight className={cls} />;
+    case 'slight left': return <ArrowUpLeft className={cls} />;
+    case 'slight right': return <ArrowUpRight className={cls} />;
+    default: return <ArrowUp className={cls} />;
+  }
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const DirectionsList: React.FC<DirectionsListProps> = ({ steps, activeStep, onStepHover, onStepSelect }) => {
+  return (
+    <div className="rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+      <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5">
+        Directions · {steps.length} steps
+      </div>
+      <ol className="max-h-72 overflow-y-auto" onMouseLeave={() => onStepHover(null)}>
+        {steps.map((step, i) => (
+          <li
+            key={i}
+            onMouseEnter={() => onStepHover(i)}
+            onClick={() => onStepSelect(i)}
+            className={`flex items-start gap-3 px-4 py-2.5 cursor-pointer border-b border-white/5 last:border-0 transition-colors ${
+              activeStep === i ? 'bg-indigo-500/20' : 'hover:bg-white/5'
+            }`}
+          >
+            <div className="mt-0.5 w-7 h-7 rounded-full bg-black/40 border border-white/10 flex items-center justify-center flex-shrink-0 text-indigo-300">
+              <ManeuverIcon step={step} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white leading-snug">{capitalize(step.instruction)}</div>
+              {step.distance > 0 && (
+                <div className="text-xs text-gray-500 mt-0.5">
+                  {formatDistance(step.distance)} · {formatDuration(step.duration)}
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default DirectionsList;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Mountain, TrendingDown, TrendingUp } from 'lucide-react';
+import type { Coordinate, RouteElevation } from '../services/routing';
+import { formatDistance } from '../utils/format';
+
+interface ElevationChartProps {
+  elevation: RouteElevation;
+  onHover: (point: Coordinate | null) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 90;
+const PAD_Y = 6;
+
+const ElevationChart: React.FC<ElevationChartProps> = ({ elevation, onHover }) => {
+  const [active, setActive] = useState<number | null>(null);
+  const { profile, ascent, descent, maxGrade } = elevation;
+
+  const total = profile[profile.length - 1].distance || 1;
+  const heights = profile.map(p => p.elevation);
+  const low = Math.min(...heights), high = Math.max(...heights);
+  const span = Math.max(high - low, 10); // keeps flat routes from looking like mountains
+  const x = (distance: number) => (distance / total) * WIDTH;
+  const y = (h: number) => HEIGHT - PAD_Y - ((h - low) / span) * (HEIGHT - 2 * PAD_Y);
+
+  const line = profile.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.distance).toFixed(1)},${y(p.elevation).toFixed(1)}`).join(' ');
+  const area = `${line} L${WIDTH},${HEIGHT} L0,${HEIGHT} Z`;
+
+  // Nearest sample to the pointer, by distance along the route
+  const pick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const distance = ((e.clientX - box.left) / box.width) * total;
+    let best = 0;
+    profile.forEach((p, i) => {
+      if (Math.abs(p.distance - distance) < Math.abs(profile[best].distance - distance)) best = i;
+    });
+    setActive(best);
+    onHover({ lat: profile[best].lat, lng: profile[best].lng });
+  };
+  const leave = () => {
+    setActive(null);
+    onHover(null);
+  };
+
+  const point = active !== null ? profile[active] : null;
+
+  return (
+    <div className="rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+      <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5">
+          <Mountain className="w-3.5 h-3.5" /> Elevation
+        </span>
+        <span className="flex items-center gap-2.5 text-gray-300">
+          <span className="flex items-center gap-1"><TrendingUp className="w-3 h-3 text-rose-300" />{Math.round(ascent)} m</span>
+          <span className="flex items-center gap-1"><TrendingDown className="w-3 h-3 text-emerald-300" />{Math.round(descent)} m</span>
+          <span>max {(maxGrade * 100).toFixed(1)} %</span>
+        </span>
+      </div>
+      <div className="relative px-2 pt-2">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-24 cursor-crosshair"
+          onMouseMove={pick}
+          onMouseLeave={leave}
+        >
+          <path d={area} fill="rgba(129, 140, 248, 0.2)" />
+          <path d={line} fill="none" stroke="#818cf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          {point && (
+            <line
+              x1={x(point.distance)}
+              x2={x(point.distance)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#ffffff"
+              strokeOpacity={0.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        <div className="flex justify-between px-1 pb-2 text-[11px] text-gray-500">
+          {point ? (
+            <span className="text-gray-300">{Math.round(point.elevation)} m at {formatDistance(point.distance)}</span>
+          ) : (
+            <span>{Math.round(low)}–{Math.round(high)} m</span>
+          )}
+          <span>{formatDistance(total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ElevationChart;
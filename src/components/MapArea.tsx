@@ -1,7 +1,20 @@
-import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap, CircleMarker } from 'react-leaflet';
+import { useEffect, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap, useMapEvents, CircleMarker, Rectangle, Polygon, Circle, Tooltip } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
-import type { RouteData, Coordinate } from '../services/routing';
+import type { RouteData, RouteStep, Coordinate } from '../services/routing';
+import type { TileBounds } from '../services/tileCache';
+import type { AvoidZone, ZoneShape } from '../services/zones';
+import { ISOCHRONE_COLORS } from '../services/isochrone';
+import type { IsochroneResult } from '../services/isochrone';
+import type { ImportedTrack } from '../services/routeFiles';
+import { readViewport, saveViewport } from '../services/deepLink';
+import { reverseGeocode } from '../services/geocoding';
+import { runInWorker } from '../services/workerClient';
+import type { NearestRoad } from '../services/snapping';
+import type { NavProgress } from '../services/navigation';
+import type { SearchTrace } from '../services/dijkstra';
+import SearchReplay from './SearchReplay';
+import { formatDistance } from '../utils/format';
 import L from 'leaflet';
 
 // Fix Leaflet's default icon path issues
@@ -30,25 +43,384 @@ const neonIcon = L.divIcon({
   iconAnchor: [8, 8]
 });
 
+// Numbered marker for intermediate stops, in visiting order
+const stopIcon = (n: number) => L.divIcon({
+  className: 'custom-div-icon',
+  html: `<div style="background-color: #f59e0b; width: 22px; height: 22px; border-radius: 50%; border: 2px solid white; box-shadow: 0 0 8px 1px #f59e0b; color: #111827; font: 600 11px/18px Outfit, sans-serif; text-align: center;">${n}</div>`,
+  iconSize: [22, 22],
+  iconAnchor: [11, 11]
+});
+
+// Changes to the waypoints made directly on the map; `index` is in visiting order
+export type MapEdit =
+  | { type: 'start' | 'end' | 'via'; coord: Coordinate }
+  | { type: 'move'; index: number; coord: Coordinate; live: boolean } // live = mid-drag
+  | { type: 'reroute'; coord: Coordinate; nextWaypoint: number }; // navigation left the route
+
 interface MapAreaProps {
-  routeData: RouteData | null;
+  routes: RouteData[];
+  selectedRoute: number;
+  onSelectRoute: (index: number) => void;
   userLocation: Coordinate | null;
+  highlightedStep: number | null;
+  focusedStep: number | null;
+  coverage: TileBounds | null;
+  zones: AvoidZone[];
+  drawing: ZoneShape['type'] | null;
+  onZoneDrawn: (shape: ZoneShape) => void;
+  onDrawCancel: () => void;
+  onMapEdit: (edit: MapEdit) => void;
+  fitRoutes: boolean; // false while the route is being edited on the map
+  isochrones: IsochroneResult | null;
+  track: ImportedTrack | null;
+  onViewportChange: (bounds: TileBounds) => void;
+  elevationPoint: Coordinate | null; // hovered in the elevation chart
+  navigation: NavProgress | null;
+  searchTrace: SearchTrace | null; // a recorded local search to replay
+  onSearchTraceClose: () => void;
 }
 
-// Component to dynamically fit bounds when route changes
-const RouteBounds = ({ route }: { route: RouteData | null }) => {
+// Component to dynamically fit bounds when a new set of routes arrives
+const RouteBounds = ({ routes, fit }: { routes: RouteData[]; fit: boolean }) => {
   const map = useMap();
 
   useEffect(() => {
-    if (route && route.geometry && route.geometry.length > 0) {
-      const bounds = L.latLngBounds(route.geometry);
+    const points = routes.flatMap(r => r.geometry);
+    if (fit && points.length > 0) {
+      const bounds = L.latLngBounds(points);
       map.fitBounds(bounds, { padding: [50, 50], animate: true, duration: 1.5 });
     }
-  }, [route, map]);
+  }, [routes, fit, map]);
 
   return null;
 };
 
+// Zoom to a single step's segment when one is selected in the directions list
+const StepFocus = ({ step }: { step: RouteStep | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!step) return;
+    if (step.geometry.length > 1) {
+      map.fitBounds(L.latLngBounds(step.geometry), { padding: [80, 80], maxZoom: 18, animate: true, duration: 0.8 });
+    } else {
+      map.flyTo(step.maneuver.location, 17, { duration: 0.8 });
+    }
+  }, [step, map]);
+
+  return null;
+};
+
+// Show the whole extract once an offline network is loaded
+const CoverageBounds = ({ coverage }: { coverage: TileBounds }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    map.fitBounds([[coverage.minLat, coverage.minLon], [coverage.maxLat, coverage.maxLon]], { padding: [50, 50], animate: true, duration: 1.5 });
+  }, [coverage, map]);
+
+  return null;
+};
+
+// Active zones in red, switched-off ones as a faint dashed outline
+const ZoneOverlay = ({ zone }: { zone: AvoidZone }) => {
+  const pathOptions = zone.enabled
+    ? { color: '#f43f5e', weight: 2, fillColor: '#f43f5e', fillOpacity: 0.15 }
+    : { color: '#64748b', weight: 1.5, dashArray: '4 6', fillColor: '#64748b', fillOpacity: 0.05 };
+  const label = <Tooltip sticky>{zone.name}{zone.enabled ? '' : ' (off)'}</Tooltip>;
+
+  return zone.shape.type === 'circle'
+    ? <Circle center={zone.shape.center} radius={zone.shape.radius} pathOptions={pathOptions}>{label}</Circle>
+    : <Polygon positions={zone.shape.points} pathOptions={pathOptions}>{label}</Polygon>;
+};
+
+// Drop repeats: a double-click also delivers two clicks on the same spot
+const distinctPoints = (points: [number, number][]) =>
+  points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+
+/**
+ * Click-to-draw for avoid-zones. Polygons take one click per vertex and close
+ * on a double-click or a click on the first vertex; circles take the centre,
+ * then a point on the edge. Escape cancels.
+ */
+const ZoneDrawer = ({ mode, onDone, onCancel }: { mode: ZoneShape['type']; onDone: (shape: ZoneShape) => void; onCancel: () => void }) => {
+  const [points, setPoints] = useState<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  const map = useMapEvents({
+    click: (e) => {
+      const p: [number, number] = [e.latlng.lat, e.latlng.lng];
+      if (mode === 'circle') {
+        if (points.length === 0) setPoints([p]);
+        else onDone({ type: 'circle', center: points[0], radius: map.distance(points[0], p) });
+        return;
+      }
+      const closesRing = points.length >= 3 && map.latLngToContainerPoint(points[0]).distanceTo(e.containerPoint) < 10;
+      if (closesRing) onDone({ type: 'polygon', points });
+      else setPoints([...points, p]);
+    },
+    dblclick: () => {
+      const ring = distinctPoints(points);
+      if (mode === 'polygon' && ring.length >= 3) onDone({ type: 'polygon', points: ring });
+    },
+    mousemove: (e) => setCursor([e.latlng.lat, e.latlng.lng]),
+  });
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onCancel();
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    window.addEventListener('keydown', onKey);
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [map, onCancel]);
+
+  const preview = { color: '#f43f5e', weight: 2, dashArray: '4 6', fillOpacity: 0.1 };
+  if (points.length === 0) return null;
+  if (mode === 'circle') {
+    return cursor && <Circle center={points[0]} radius={map.distance(points[0], cursor)} pathOptions={preview} interactive={false} />;
+  }
+  return (
+    <>
+      <Polyline positions={cursor ? [...points, cursor] : points} pathOptions={preview} interactive={false} />
+      {points.map((p, i) => (
+        <CircleMarker key={i} center={p} radius={4} pathOptions={{ color: '#ffffff', fillColor: '#f43f5e', fillOpacity: 1, weight: 2 }} interactive={false} />
+      ))}
+    </>
+  );
+};
+
+const toCoordinate = ({ lat, lng }: L.LatLng): Coordinate => ({ lat, lng });
+
+interface PlaceInfo {
+  address: string | null; // null once the lookup has found nothing
+  road: NearestRoad | null;
+}
+
+/**
+ * Clicking empty map describes the spot — its address and the nearest road
+ * in the loaded road data — and offers to put a waypoint there.
+ */
+const MapClickMenu = ({ onMapEdit }: { onMapEdit: (edit: MapEdit) => void }) => {
+  const [at, setAt] = useState<L.LatLng | null>(null);
+  const [info, setInfo] = useState<Partial<PlaceInfo>>({});
+  const lastClick = useRef<L.LatLng | null>(null); // answers for an earlier click are dropped
+
+  useMapEvents({
+    click: (e) => {
+      const coord = toCoordinate(e.latlng);
+      lastClick.current = e.latlng;
+      setAt(e.latlng);
+      setInfo({});
+      const update = (patch: Partial<PlaceInfo>) => lastClick.current === e.latlng && setInfo(prev => ({ ...prev, ...patch }));
+      reverseGeocode(coord).then(place => update({ address: place?.label ?? null }));
+      runInWorker({ type: 'nearestRoad', point: coord })
+        .then(road => update({ road }))
+        .catch(error => {
+          console.error('Nearest road lookup failed:', error);
+          update({ road: null });
+        });
+    },
+  });
+  if (!at) return null;
+
+  const choose = (type: 'start' | 'end' | 'via') => {
+    onMapEdit({ type, coord: toCoordinate(at) });
+    setAt(null);
+  };
+  const item = 'block w-full text-left px-2 py-1 rounded hover:bg-indigo-500/20';
+
+  return (
+    <Popup position={at} className="glass-popup" eventHandlers={{ remove: () => setAt(null) }}>
+      <div className="text-sm min-w-48">
+        <div className="px-2 pb-2 mb-1 border-b border-black/10 space-y-0.5">
+          <div className="font-medium">
+            {info.address === undefined ? 'Looking up address…' : info.address ?? 'No address here'}
+          </div>
+          {info.road && (
+            <div className="text-xs text-gray-500">
+              {info.road.name || (info.road.highway ? `Unnamed road (${info.road.highway})` : 'Unnamed road')} · {formatDistance(info.road.distance)} away
+            </div>
+          )}
+          <div className="text-xs text-gray-400">{at.lat.toFixed(5)}, {at.lng.toFixed(5)}</div>
+        </div>
+        <button type="button" className={item} onClick={() => choose('start')}>Route from here</button>
+        <button type="button" className={item} onClick={() => choose('via')}>Add a stop here</button>
+        <button type="button" className={item} onClick={() => choose('end')}>Route to here</button>
+      </div>
+    </Popup>
+  );
+};
+
+/**
+ * The selected route's line. Pressing on it and dragging drops a new
+ * via-point where the mouse is released.
+ */
+const DraggableRoute = ({ geometry, onMapEdit }: { geometry: [number, number][]; onMapEdit: (edit: MapEdit) => void }) => {
+  const [drag, setDrag] = useState<{ from: L.Point; at: L.LatLng } | null>(null);
+
+  const map = useMapEvents({
+    mousemove: (e) => drag && setDrag({ ...drag, at: e.latlng }),
+    mouseup: (e) => {
+      if (!drag) return;
+      map.dragging.enable();
+      // A plain click on the line is not a drag
+      if (e.containerPoint.distanceTo(drag.from) > 5) {
+        onMapEdit({ type: 'via', coord: toCoordinate(e.latlng) });
+        // Swallow the click that follows the release so the map menu stays shut
+        const container = map.getContainer();
+        const swallow = (ev: MouseEvent) => ev.stopImmediatePropagation();
+        container.addEventListener('click', swallow, { capture: true, once: true });
+        setTimeout(() => container.removeEventListener('click', swallow, { capture: true }), 0);
+      }
+      setDrag(null);
+    },
+  });
+
+  // Disabling map dragging inside the same mousedown keeps the map from panning
+  const grab = (e: L.LeafletMouseEvent) => {
+    map.dragging.disable();
+    setDrag({ from: e.containerPoint, at: e.latlng });
+  };
+
+  return (
+    <>
+      <Polyline
+        positions={geometry}
+        color="#8b5cf6"
+        weight={6}
+        opacity={0.8}
+        lineCap="round"
+        lineJoin="round"
+        eventHandlers={{ mousedown: grab }}
+      />
+      <Polyline
+        positions={geometry}
+        color="#6366f1"
+        weight={3}
+        opacity={1}
+        lineCap="round"
+        lineJoin="round"
+        eventHandlers={{ mousedown: grab }}
+      />
+      {drag && (
+        <CircleMarker
+          center={drag.at}
+          radius={7}
+          pathOptions={{ color: '#ffffff', fillColor: '#f59e0b', fillOpacity: 1, weight: 2 }}
+          interactive={false}
+        />
+      )}
+    </>
+  );
+};
+
+// Reachable-area bands, outermost at the bottom so each inner band shows on top
+const IsochroneLayer = ({ result }: { result: IsochroneResult }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const outer = result.isochrones[result.isochrones.length - 1];
+    const points = outer?.polygons.flatMap(rings => rings[0]) ?? [];
+    if (points.length > 0) map.fitBounds(L.latLngBounds(points), { padding: [50, 50], animate: true, duration: 1.5 });
+  }, [result, map]);
+
+  return (
+    <>
+      {result.isochrones.map((band, i) => ({ band, color: ISOCHRONE_COLORS[i] })).reverse().map(({ band, color }) => (
+        <Polygon
+          key={band.budget}
+          positions={band.polygons}
+          pathOptions={{ color, weight: 1.5, fillColor: color, fillOpacity: 0.18 }}
+          interactive={false}
+        />
+      ))}
+      <Marker position={[result.origin.lat, result.origin.lng]} icon={neonIcon} />
+    </>
+  );
+};
+
+// An imported GPX/GeoJSON/KML route, dashed so it reads as "not computed here"
+const TrackLayer = ({ track }: { track: ImportedTrack }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    map.fitBounds(L.latLngBounds(track.geometry), { padding: [50, 50], animate: true, duration: 1.5 });
+  }, [track, map]);
+
+  return (
+    <>
+      <Polyline positions={track.geometry} color="#fb923c" weight={4} opacity={0.9} dashArray="8 8" interactive={false} />
+      {track.stops.map((stop, i) => (
+        <CircleMarker
+          key={i}
+          center={[stop.lat, stop.lng]}
+          radius={5}
+          pathOptions={{ color: '#ffffff', fillColor: '#fb923c', fillOpacity: 1, weight: 2 }}
+        >
+          <Tooltip>{stop.name}</Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+};
+
+const visibleBounds = (map: L.Map): TileBounds => {
+  const b = map.getBounds();
+  return { minLat: b.getSouth(), maxLat: b.getNorth(), minLon: b.getWest(), maxLon: b.getEast() };
+};
+
+// Keeps the viewport in the URL (and reports it for search bias), and restores it when back/forward changes the URL
+const ViewportLink = ({ onChange }: { onChange: (bounds: TileBounds) => void }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      saveViewport({ lat, lng, zoom: map.getZoom() });
+      onChange(visibleBounds(map));
+    },
+  });
+
+  // The initial view never fires moveend
+  useEffect(() => onChange(visibleBounds(map)), [map, onChange]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const view = readViewport();
+      if (view) map.setView([view.lat, view.lng], view.zoom);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [map]);
+
+  return null;
+};
+
+// Travelled part of the route greyed out, the current position, and the map following it
+const NavigationLayer = ({ progress }: { progress: NavProgress }) => {
+  const map = useMap();
+  const { lat, lng } = progress.position;
+
+  useEffect(() => {
+    map.setView([lat, lng], Math.max(map.getZoom(), 16), { animate: true });
+  }, [lat, lng, map]);
+
+  return (
+    <>
+      {progress.passed.length > 1 && (
+        <Polyline positions={progress.passed} color="#6b7280" weight={7} opacity={0.9} lineCap="round" lineJoin="round" />
+      )}
+      <CircleMarker
+        center={[lat, lng]}
+        radius={9}
+        pathOptions={{ color: '#ffffff', fillColor: progress.reroute ? '#f59e0b' : '#3b82f6', fillOpacity: 1, weight: 3 }}
+      />
+    </>
+  );
+};
+
 // Fly to user location when it changes
 const FlyToLocation = ({ location }: { location: Coordinate | null }) => {
   const map = useMap();
@@ -60,13 +432,20 @@ const FlyToLocation = ({ location }: { location: Coordinate | null }) => {
   return null;
 };
 
-const MapArea: React.FC<MapAreaProps> = ({ routeData, userLocation }) => {
-  const [center] = useState<[number, number]>([20.5937, 78.9629]); // India
+const MapArea: React.FC<MapAreaProps> = ({
+  routes, selectedRoute, onSelectRoute, userLocation, highlightedStep, focusedStep, coverage, zones, drawing, onZoneDrawn, onDrawCancel,
+  onMapEdit, fitRoutes, isochrones, track, onViewportChange, elevationPoint, navigation,
+  searchTrace, onSearchTraceClose
+}) => {
+  const [view] = useState(() => readViewport() ?? { lat: 20.5937, lng: 78.9629, zoom: 5 }); // India unless the link says otherwise
+  const routeData = routes[selectedRoute] ?? null;
+  const activeStep = highlightedStep !== null ? routeData?.steps[highlightedStep] ?? null : null;
+  const focused = focusedStep !== null ? routeData?.steps[focusedStep] ?? null : null;
 
   return (
     <MapContainer 
-      center={center} 
-      zoom={5} 
+      center={[view.lat, view.lng]}
+      zoom={view.zoom}
       className="w-full h-full"
       zoomControl={false}
     >
@@ -75,6 +454,29 @@ const MapArea: React.FC<MapAreaProps> = ({ routeData, userLocation }) => {
         url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
       />
 
+      {/* Coverage of the imported offline network */}
+      {coverage && (
+        <>
+          <Rectangle
+            bounds={[[coverage.minLat, coverage.minLon], [coverage.maxLat, coverage.maxLon]]}
+            pathOptions={{ color: '#22d3ee', weight: 1.5, dashArray: '6 6', fillColor: '#22d3ee', fillOpacity: 0.04 }}
+            interactive={false}
+          />
+          <CoverageBounds coverage={coverage} />
+        </>
+      )}
+
+      <ViewportLink onChange={onViewportChange} />
+      {isochrones && <IsochroneLayer result={isochrones} />}
+      {track && <TrackLayer track={track} />}
+      {searchTrace && <SearchReplay trace={searchTrace} onClose={onSearchTraceClose} />}
+
+      {/* Avoid-zones */}
+      {zones.map(zone => <ZoneOverlay key={zone.id} zone={zone} />)}
+      {drawing
+        ? <ZoneDrawer key={drawing} mode={drawing} onDone={onZoneDrawn} onCancel={onDrawCancel} />
+        : <MapClickMenu onMapEdit={onMapEdit} />}
+
       {/* User location marker */}
       {userLocation && (
         <>
@@ -94,32 +496,82 @@ const MapArea: React.FC<MapAreaProps> = ({ routeData, userLocation }) => {
         </>
       )}
       
+      {/* Alternatives: dimmed, drawn underneath, click to select */}
+      {routes.map((route, i) => i !== selectedRoute && (
+        <Polyline
+          key={`alt-${i}`}
+          positions={route.geometry}
+          color="#64748b"
+          weight={6}
+          opacity={0.6}
+          lineCap="round"
+          lineJoin="round"
+          eventHandlers={{ click: () => onSelectRoute(i) }}
+        />
+      ))}
+
       {routeData && routeData.geometry && (
         <>
-          <Polyline 
-            positions={routeData.geometry} 
-            color="#8b5cf6" 
-            weight={6} 
-            opacity={0.8} 
-            lineCap="round"
-            lineJoin="round"
-          />
-          <Polyline 
-            positions={routeData.geometry} 
-            color="#6366f1" 
-            weight={3} 
-            opacity={1} 
-            lineCap="round"
-            lineJoin="round"
-          />
-          <Marker position={routeData.geometry[0]} icon={neonIcon}>
-            <Popup className="glass-popup">Start</Popup>
-          </Marker>
-          <Marker position={routeData.geometry[routeData.geometry.length - 1]} icon={neonIcon}>
-            <Popup className="glass-popup">Destination</Popup>
-          </Marker>
+          <DraggableRoute geometry={routeData.geometry} onMapEdit={onMapEdit} />
+          {/* Connectors from the exact requested points to where they join the road */}
+          {routeData.waypoints.map((point, i) => (
+            <Polyline
+              key={`connector-${i}`}
+              positions={[point, routeData.snapped[i]]}
+              color="#a5b4fc"
+              weight={2}
+              opacity={0.8}
+              dashArray="4 6"
+            />
+          ))}
+          {routeData.waypoints.map((point, i) => {
+            const last = routeData.waypoints.length - 1;
+            const moved = (e: L.LeafletEvent, live: boolean) =>
+              onMapEdit({ type: 'move', index: i, coord: toCoordinate((e.target as L.Marker).getLatLng()), live });
+            return (
+              <Marker
+                key={`waypoint-${i}`}
+                position={point}
+                icon={i === 0 || i === last ? neonIcon : stopIcon(i)}
+                draggable
+                eventHandlers={{ drag: e => moved(e, true), dragend: e => moved(e, false) }}
+              >
+                <Popup className="glass-popup">{i === 0 ? 'Start' : i === last ? 'Destination' : `Stop ${i}`}</Popup>
+              </Marker>
+            );
+          })}
           
-          <RouteBounds route={routeData} />
+          {activeStep && (
+            <>
+              <Polyline
+                positions={activeStep.geometry}
+                color="#facc15"
+                weight={8}
+                opacity={0.9}
+                lineCap="round"
+                lineJoin="round"
+              />
+              <CircleMarker
+                center={activeStep.maneuver.location}
+                radius={6}
+                pathOptions={{ color: '#ffffff', fillColor: '#facc15', fillOpacity: 1, weight: 2 }}
+              />
+            </>
+          )}
+
+          {navigation && <NavigationLayer progress={navigation} />}
+
+          {/* Position hovered in the elevation chart */}
+          {elevationPoint && (
+            <CircleMarker
+              center={[elevationPoint.lat, elevationPoint.lng]}
+              radius={6}
+              pathOptions={{ color: '#ffffff', fillColor: '#818cf8', fillOpacity: 1, weight: 2 }}
+            />
+          )}
+
+          <RouteBounds routes={routes} fit={fitRoutes} />
+          <StepFocus step={focused} />
         </>
       )}
     </MapContainer>
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Grid3x3 } from 'lucide-react';
+import type { MatrixResult } from '../services/matrix';
+import { matrixToCsv, matrixToJson } from '../services/matrix';
+import { formatDistance, formatDuration } from '../utils/format';
+import { downloadText } from '../utils/download';
+
+interface MatrixTableProps {
+  result: MatrixResult;
+}
+
+type Metric = 'durations' | 'distances';
+
+// Rows ordered by origin name, or by their value in one destination column
+interface Sort {
+  column: number | null; // null = origin name
+  ascending: boolean;
+}
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'durations', label: 'Time' },
+  { value: 'distances', label: 'Distance' },
+];
+
+const MatrixTable: React.FC<MatrixTableProps> = ({ result }) => {
+  const [metric, setMetric] = useState<Metric>('durations');
+  const [sort, setSort] = useState<Sort>({ column: null, ascending: true });
+  const { sources, destinations } = result;
+  const values = result[metric];
+  const format = metric === 'durations' ? formatDuration : formatDistance;
+  const unreachable = values.flat().filter(v => v === null).length;
+
+  // Unreachable pairs sort last either way
+  const order = sources.map((_, i) => i).sort((a, b) => {
+    if (sort.column === null) {
+      const byName = sources[a].name.localeCompare(sources[b].name);
+      return sort.ascending ? byName : -byName;
+    }
+    const va = values[a][sort.column], vb = values[b][sort.column];
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    return sort.ascending ? va - vb : vb - va;
+  });
+
+  const sortBy = (column: number | null) =>
+    setSort(prev => ({ column, ascending: prev.column === column ? !prev.ascending : true }));
+
+  const arrow = (column: number | null) =>
+    sort.column === column && (sort.ascending ? <ArrowUp className="w-3 h-3 inline" /> : <ArrowDown className="w-3 h-3 inline" />);
+
+  const download = (type: 'csv' | 'json') => {
+    const name = `matrix-${result.profile}-${sources.length}x${destinations.length}.${type}`;
+    if (type === 'csv') downloadText(name, matrixToCsv(result), 'text/csv');
+    else downloadText(name, matrixToJson(result), 'application/json');
+  };
+
+  return (
+    <div className="rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+      <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5">
+          <Grid3x3 className="w-3.5 h-3.5" /> {sources.length} × {destinations.length}
+          {unreachable > 0 && <span className="text-rose-300">· {unreachable} unreachable</span>}
+        </span>
+        <span className="flex items-center gap-1">
+          {METRICS.map(m => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => setMetric(m.value)}
+              className={`rounded-full px-2 py-0.5 border transition-colors ${
+                metric === m.value ? 'bg-indigo-500/30 text-white border-indigo-500/40' : 'hover:text-white border-white/10'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </span>
+      </div>
+
+      <div className="overflow-auto max-h-96 custom-scrollbar">
+        <table className="text-xs text-gray-300 border-collapse">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="sticky top-0 left-0 z-20 bg-gray-900 px-3 py-2 text-left font-normal">
+                <button type="button" onClick={() => sortBy(null)} className="hover:text-white transition-colors">
+                  From \ To {arrow(null)}
+                </button>
+              </th>
+              {destinations.map((d, j) => (
+                <th key={j} className="sticky top-0 z-10 bg-gray-900 px-3 py-2 text-right font-normal whitespace-nowrap">
+                  <button type="button" onClick={() => sortBy(j)} title={d.name} className="hover:text-white transition-colors max-w-[8rem] truncate">
+                    {d.name} {arrow(j)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map(i => (
+              <tr key={i} className="border-t border-white/5">
+                <th className="sticky left-0 z-10 bg-gray-900 px-3 py-1.5 text-left font-normal text-gray-300 max-w-[8rem] truncate" title={sources[i].name}>
+                  {sources[i].name}
+                </th>
+                {values[i].map((v, j) => (
+                  <td key={j} className={`px-3 py-1.5 text-right whitespace-nowrap ${v === null ? 'text-rose-300' : ''}`}>
+                    {v === null ? 'unreachable' : format(v)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-4 py-2 border-t border-white/5 flex items-center justify-center gap-1.5 text-xs">
+        <Download className="w-3.5 h-3.5 text-gray-500" />
+        {(['csv', 'json'] as const).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => download(type)}
+            className="px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            {type.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatrixTable;
@@ -0,0 +1,89 @@
+import { motion } from 'framer-motion';
+import { Flag, Navigation2, X } from 'lucide-react';
+import type { RouteData } from '../services/routing';
+import type { NavProgress } from '../services/navigation';
+import { formatDistance, formatDuration } from '../utils/format';
+import { ManeuverIcon } from './DirectionsList';
+
+interface NavigationBannerProps {
+  route: RouteData;
+  progress: NavProgress | null; // null until the first fix
+  replaySpeed: number | null; // null when following the real GPS
+  onReplaySpeed: (speed: number) => void;
+  onStop: () => void;
+}
+
+const REPLAY_SPEEDS = [1, 2, 5, 10, 30];
+
+const NavigationBanner: React.FC<NavigationBannerProps> = ({ route, progress, replaySpeed, onReplaySpeed, onStop }) => {
+  const step = progress ? route.steps[progress.step] : undefined;
+  const eta = progress ? new Date(progress.fix.timestamp + progress.remainingDuration * 1000) : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="pointer-events-auto absolute top-4 left-1/2 -translate-x-1/2 w-[min(28rem,calc(100%-2rem))] rounded-2xl bg-gray-900/95 backdrop-blur-sm border border-white/10 shadow-2xl shadow-black/50 text-white overflow-hidden"
+    >
+      <div className="flex items-center gap-3 px-4 py-3">
+        <div className="w-10 h-10 rounded-full bg-indigo-500/20 border border-indigo-500/40 flex items-center justify-center flex-shrink-0 text-indigo-300">
+          {progress?.arrived ? <Flag className="w-5 h-5" /> : step ? <ManeuverIcon step={step} /> : <Navigation2 className="w-5 h-5" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          {!progress ? (
+            <div className="text-sm text-gray-400">Waiting for position…</div>
+          ) : progress.arrived ? (
+            <div className="text-lg font-semibold">You have arrived</div>
+          ) : (
+            <>
+              <div className="text-lg font-semibold leading-tight">{formatDistance(progress.toManeuver)}</div>
+              <div className="text-sm text-gray-300 truncate first-letter:uppercase">{step?.instruction ?? 'Continue'}</div>
+            </>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onStop}
+          className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {progress && !progress.arrived && (
+        <div className="px-4 py-2 border-t border-white/5 flex items-center justify-between text-xs text-gray-400">
+          <span>{formatDistance(progress.remainingDistance)} · {formatDuration(progress.remainingDuration)} left</span>
+          <span>Arrive {eta!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+        </div>
+      )}
+
+      {progress?.reroute && !progress.arrived && (
+        <div className="px-4 py-1.5 bg-amber-500/15 text-amber-300 text-xs">
+          Off route by {formatDistance(progress.offRoute)} — finding a new route…
+        </div>
+      )}
+
+      {replaySpeed !== null && (
+        <div className="px-4 py-2 border-t border-white/5 flex items-center gap-1.5 text-xs">
+          <span className="text-gray-500 mr-1">Simulated</span>
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              type="button"
+              onClick={() => onReplaySpeed(speed)}
+              className={`rounded-full px-2 py-0.5 border transition-colors ${
+                replaySpeed === speed
+                  ? 'bg-indigo-500/30 text-white border-indigo-500/40'
+                  : 'text-gray-400 hover:text-white border-white/10'
+              }`}
+            >
+              {speed}×
+            </button>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default NavigationBanner;
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from 'react';
+import { Polyline, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import type { SearchTrace } from '../services/dijkstra';
+
+interface SearchReplayProps {
+  trace: SearchTrace;
+  onClose: () => void;
+}
+
+const BASE_RATE = 250; // expansions per second at 1×, the same for every algorithm so their pace compares
+const SPEEDS = [1, 4, 16, 64];
+const FADE_SECONDS = 0.5; // settled nodes fade in over this long
+const PANE = 'searchTrace'; // under the route lines, which stay readable on top
+
+const CLOSED_COLOR = '#818cf8';
+const FRONTIER_COLOR = '#facc15';
+const PATH_COLOR = '#34d399';
+
+const ALGORITHM_LABELS: Record<SearchTrace['algorithm'], string> = { astar: 'A*', dijkstra: 'Dijkstra' };
+
+// Draws the search as it stood after `step` expansions onto a canvas covering the map
+function paintTrace(map: L.Map, canvas: HTMLCanvasElement, trace: SearchTrace, step: number, fade: number) {
+  const size = map.getSize();
+  const ratio = window.devicePixelRatio || 1;
+  if (canvas.width !== size.x * ratio || canvas.height !== size.y * ratio) {
+    canvas.width = size.x * ratio;
+    canvas.height = size.y * ratio;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+  }
+  L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, size.x, size.y);
+
+  const view = map.getBounds().pad(0.05);
+  const { points, reached, settled } = trace;
+  const frontier: L.Point[] = [];
+
+  ctx.fillStyle = CLOSED_COLOR;
+  for (let i = 0; i < points.length; i++) {
+    if (reached[i] > step || !view.contains(points[i])) continue;
+    const p = map.latLngToContainerPoint(points[i]);
+    if (settled[i] < 0 || settled[i] >= step) {
+      frontier.push(p);
+      continue;
+    }
+    ctx.globalAlpha = 0.55 * Math.min(1, (step - settled[i]) / fade);
+    ctx.fillRect(p.x - 1.5, p.y - 1.5, 3, 3);
+  }
+
+  ctx.globalAlpha = 0.95;
+  ctx.fillStyle = FRONTIER_COLOR;
+  for (const p of frontier) ctx.fillRect(p.x - 2, p.y - 2, 4, 4);
+}
+
+/**
+ * Replays a recorded search on the map: settled nodes fade in, the frontier
+ * is highlighted, and the path found is drawn once the last expansion is shown.
+ */
+const SearchReplay: React.FC<SearchReplayProps> = ({ trace, onClose }) => {
+  const map = useMap();
+  const [shown, setShown] = useState(trace);
+  const [step, setStep] = useState(0); // expansions shown, fractional while playing
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(4);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // A new recording starts from the beginning
+  if (shown !== trace) {
+    setShown(trace);
+    setStep(0);
+    setPlaying(true);
+  }
+
+  const done = step >= trace.steps;
+  const running = playing && !done;
+
+  useEffect(() => {
+    const pane = map.getPane(PANE) ?? map.createPane(PANE);
+    pane.style.zIndex = '350';
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    canvas.style.pointerEvents = 'none';
+    canvasRef.current = canvas;
+    return () => {
+      canvas.remove();
+      canvasRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const paint = () => {
+      if (canvasRef.current) paintTrace(map, canvasRef.current, trace, step, BASE_RATE * speed * FADE_SECONDS);
+    };
+    paint();
+    map.on('moveend zoomend resize', paint);
+    return () => {
+      map.off('moveend zoomend resize', paint);
+    };
+  }, [map, trace, step, speed]);
+
+  useEffect(() => {
+    if (!running) return;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const advance = ((now - last) / 1000) * BASE_RATE * speed;
+      last = now;
+      setStep(s => Math.min(trace.steps, s + advance));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [running, speed, trace.steps]);
+
+  // Clicks on the controls must not reach the map's own click menu
+  useEffect(() => {
+    if (!panelRef.current) return;
+    L.DomEvent.disableClickPropagation(panelRef.current);
+    L.DomEvent.disableScrollPropagation(panelRef.current);
+  }, []);
+
+  const togglePlay = () => {
+    if (done) setStep(0);
+    setPlaying(!running);
+  };
+
+  return (
+    <>
+      {done && trace.path.length > 1 && (
+        <Polyline positions={trace.path} color={PATH_COLOR} weight={5} opacity={0.95} lineCap="round" lineJoin="round" />
+      )}
+
+      <div
+        ref={panelRef}
+        className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1000] w-[min(26rem,calc(100%-2rem))] rounded-2xl bg-gray-900/95 backdrop-blur-sm border border-white/10 shadow-2xl shadow-black/50 text-white px-4 py-3 cursor-default"
+      >
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={togglePlay}
+            className="w-9 h-9 rounded-full bg-indigo-500/20 border border-indigo-500/40 flex items-center justify-center flex-shrink-0 hover:bg-indigo-500/30 transition-colors"
+          >
+            {running ? <Pause className="w-4 h-4" /> : done ? <RotateCcw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-semibold">{ALGORITHM_LABELS[trace.algorithm]} search</div>
+            <div className="text-xs text-gray-400">
+              {Math.floor(step).toLocaleString()} / {trace.steps.toLocaleString()} expanded
+              {trace.truncated && ' · first nodes only'}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={trace.steps}
+          value={Math.floor(step)}
+          onChange={e => setStep(Number(e.target.value))}
+          className="w-full mt-2 accent-indigo-500"
+        />
+
+        <div className="mt-1 flex items-center justify-between text-[11px] text-gray-400">
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: CLOSED_COLOR }} />Settled</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: FRONTIER_COLOR }} />Frontier</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: PATH_COLOR }} />Path</span>
+          </div>
+          <div className="flex items-center gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setSpeed(s)}
+                className={`rounded-full px-2 py-0.5 border transition-colors ${
+                  speed === s ? 'bg-indigo-500/30 text-white border-indigo-500/40' : 'hover:text-white border-white/10'
+                }`}
+              >
+                {s}×
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SearchReplay;
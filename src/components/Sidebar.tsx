@@ -1,59 +1,68 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MapPin, Navigation, Search, Menu, X, ArrowRight, Clock, Map as MapIcon, Crosshair } from 'lucide-react';
-import { fetchRoute } from '../services/routing';
-import type { RouteData, Coordinate } from '../services/routing';
+import { MapPin, Navigation, Search, Menu, X, ArrowRight, Clock, Map as MapIcon, Crosshair, Plus, ChevronUp, ChevronDown, Shuffle, Car, Bike, Footprints, HardDrive, Upload, Gauge, Ban, Pentagon, Circle, Eye, EyeOff, Trash2, Route, Radar, Download, FileUp, Mountain, Navigation2, PlayCircle, ScanSearch, Grid3x3, FileSpreadsheet } from 'lucide-react';
+import { ROUTING_ENGINES, getEngine } from '../services/engines';
+import type { Avoidance, RouteData, Coordinate, EngineId, LocalSearch, Objective, TaskProgress } from '../services/routing';
+import type { ProfileId } from '../services/profiles';
+import type { OfflineNetworkInfo } from '../services/osmImport';
+import type { DemTileInfo } from '../services/elevation';
+import type { BenchmarkResult, SearchTrace, TraceAlgorithm } from '../services/dijkstra';
+import type { AvoidZone, ZoneShape } from '../services/zones';
+import { ISOCHRONE_COLORS, MAX_ISOCHRONE_BANDS, isochronesToGeoJSON } from '../services/isochrone';
+import type { IsochroneMetric, IsochroneResult } from '../services/isochrone';
+import { runInWorker } from '../services/workerClient';
+import { optimizeVisitOrder } from '../services/tsp';
+import { haversineDistance } from '../services/geo';
+import { formatDistance, formatDuration, formatProgress } from '../utils/format';
+import { downloadText } from '../utils/download';
+import { geocode, localGazetteer, reverseGeocode, searchPlaces } from '../services/geocoding';
+import type { GeocodeBias, GeocodeResult } from '../services/geocoding';
+import { ROUTE_FILE_TYPES, exportRoute, trackOverlap, trackWaypoints } from '../services/routeFiles';
+import { MAX_MATRIX_LOCATIONS, parseLocationsCsv } from '../services/matrix';
+import type { LocatedPlace, MatrixLocation, MatrixResult } from '../services/matrix';
+import type { ImportedTrack, RouteFileFormat } from '../services/routeFiles';
+import { readRouteLink, readViewport, saveRouteLink } from '../services/deepLink';
+import type { RouteLink } from '../services/deepLink';
+import DirectionsList from './DirectionsList';
+import ElevationChart from './ElevationChart';
+import MatrixTable from './MatrixTable';
+import type { MapEdit } from './MapArea';
 
 interface SidebarProps {
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
-  onRouteCalculated: (data: RouteData | null) => void;
+  routes: RouteData[];
+  selectedRoute: number;
+  onRoutesCalculated: (routes: RouteData[], fit?: boolean) => void;
+  onSelectRoute: (index: number) => void;
   onUserLocation: (coord: Coordinate | null) => void;
+  activeStep: number | null;
+  onStepHover: (index: number | null) => void;
+  onStepSelect: (index: number) => void;
+  offlineNetwork: OfflineNetworkInfo | null;
+  importProgress: TaskProgress | null;
+  onNetworkFile: (file: File) => void;
+  onNetworkUnload: () => void;
+  zones: AvoidZone[];
+  onZonesChange: (zones: AvoidZone[]) => void;
+  drawing: ZoneShape['type'] | null;
+  onDraw: (mode: ZoneShape['type'] | null) => void;
+  mapEditHandlerRef: React.RefObject<((edit: MapEdit) => void) | null>;
+  isochrones: IsochroneResult | null;
+  onIsochrones: (result: IsochroneResult | null) => void;
+  importedTrack: ImportedTrack | null;
+  onTrackFile: (file: File) => void;
+  onTrackClear: () => void;
+  searchBias: GeocodeBias; // the visible map and the user's position
+  demTiles: DemTileInfo[];
+  onElevationFiles: (files: File[]) => void;
+  onElevationClear: () => void;
+  onElevationHover: (point: Coordinate | null) => void;
+  onNavigate: (simulate: boolean) => void;
+  navigating: boolean;
+  onSearchTrace: (trace: SearchTrace | null) => void;
 }
 
-// Helper to format duration
-const formatDuration = (seconds: number) => {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  if (h > 0) return `${h}h ${m}m`;
-  return `${m}m`;
-};
-
-// Helper to format distance
-const formatDistance = (meters: number) => {
-  const km = meters / 1000;
-  return `${km.toFixed(1)} km`;
-};
-
-// Fast geocoding — race Photon AND Nominatim, first response wins
-const geocode = async (query: string): Promise<Coordinate | null> => {
-  try {
-    const timeout = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error('geocode timeout')), 3000)
-    );
-
-    const photon = fetch(`https://photon.komoot.io/api/?q=${encodeURIComponent(query)}&limit=1`)
-      .then(r => r.json())
-      .then(data => {
-        if (!data?.features?.length) throw new Error('empty');
-        const [lng, lat] = data.features[0].geometry.coordinates;
-        return { lat, lng } as Coordinate;
-      });
-
-    const nominatim = fetch(`https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=1`)
-      .then(r => r.json())
-      .then(data => {
-        if (!data?.length) throw new Error('empty');
-        return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) } as Coordinate;
-      });
-
-    return await Promise.any([photon, nominatim, timeout]) as Coordinate;
-  } catch (e) {
-    console.error('Geocode failed:', e);
-    return null;
-  }
-};
-
 function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
   useEffect(() => {
@@ -70,19 +79,26 @@ function useDebounce<T>(value: T, delay: number): T {
 interface AddressAutocompleteProps {
   value: string;
   onChange: (val: string) => void;
+  onSelect: (place: GeocodeResult) => void;
+  bias: GeocodeBias;
   placeholder: string;
   icon: React.ReactNode;
   iconBgHover: string;
 }
 
-// Global cache shared across all instances
-const suggestionsCache = new Map<string, any[]>();
-
-const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChange, placeholder, icon, iconBgHover }) => {
-  const [suggestions, setSuggestions] = useState<any[]>([]);
+const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChange, onSelect, bias, placeholder, icon, iconBgHover }) => {
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const justSelected = useRef(false);
+  const biasRef = useRef(bias); // panning the map should not re-run the search
   const debouncedValue = useDebounce(value, 80);
+  // Too little typed to search: earlier suggestions stay hidden rather than cleared
+  const tooShort = debouncedValue.length < 2;
+  const open = isOpen && !tooShort;
+
+  useEffect(() => {
+    biasRef.current = bias;
+  });
 
   useEffect(() => {
     // After a selection, the value changes but we don't want to re-fetch/re-open
@@ -91,83 +107,30 @@ const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChan
       return;
     }
 
-    if (!debouncedValue || debouncedValue.length < 2) {
-      setSuggestions([]);
-      setIsOpen(false);
-      return;
-    }
-
-    const key = debouncedValue.toLowerCase().trim();
-
-    if (suggestionsCache.has(key)) {
-      setSuggestions(suggestionsCache.get(key)!);
-      setIsOpen(true);
-      return;
-    }
+    if (tooShort) return;
 
     const controller = new AbortController();
-    const signal = controller.signal;
-
-    const fetchSuggestions = async () => {
-      try {
-        // Race Photon AND Nominatim — whoever responds first wins
-        const timeout = new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('timeout')), 3000)
-        );
-
-        const photonFetch = fetch(
-          `https://photon.komoot.io/api/?q=${encodeURIComponent(debouncedValue)}&limit=5`,
-          { signal }
-        ).then(r => r.json()).then(data => {
-          if (!data?.features?.length) throw new Error('empty');
-          return data.features.map((f: any) => ({
-            name: f.properties.name || '',
-            street: f.properties.street || '',
-            city: f.properties.city || '',
-            state: f.properties.state || '',
-            country: f.properties.country || '',
-          }));
-        });
-
-        const nominatimFetch = fetch(
-          `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(debouncedValue)}&format=json&limit=5&addressdetails=1`,
-          { signal }
-        ).then(r => r.json()).then(data => {
-          if (!data?.length) throw new Error('empty');
-          return data.map((item: any) => ({
-            name: item.display_name?.split(',')[0] || '',
-            street: item.address?.road || '',
-            city: item.address?.city || item.address?.town || item.address?.village || '',
-            state: item.address?.state || '',
-            country: item.address?.country || '',
-          }));
-        });
-
-        const results = await Promise.any([photonFetch, nominatimFetch, timeout]) as any[];
-        suggestionsCache.set(key, results);
+    searchPlaces(debouncedValue, { bias: biasRef.current, signal: controller.signal })
+      .then(results => {
         setSuggestions(results);
-        setIsOpen(true);
-      } catch (e: any) {
-        if (e.name !== 'AbortError') console.error(e);
-      }
-    };
-    fetchSuggestions();
+        setIsOpen(results.length > 0);
+      })
+      .catch(e => {
+        if (!controller.signal.aborted) console.error(e);
+      });
 
     return () => controller.abort();
-  }, [debouncedValue]);
+  }, [debouncedValue, tooShort]);
 
-  const handleSelect = (s: any) => {
-    const name = s.name || '';
-    const city = s.city || s.state || '';
-    const fullName = city ? `${name}, ${city}` : name;
+  const handleSelect = (place: GeocodeResult) => {
     justSelected.current = true;
     setSuggestions([]);
     setIsOpen(false);
-    onChange(fullName || 'Unknown location');
+    onSelect(place);
   };
 
   return (
-    <div className={`relative flex items-center gap-3 group ${isOpen ? 'z-50' : 'z-10'}`}>
+    <div className={`relative flex items-center gap-3 group ${open ? 'z-50' : 'z-10'}`}>
       <div className={`w-8 h-8 rounded-full bg-black/40 border border-white/10 flex items-center justify-center flex-shrink-0 transition-colors ${iconBgHover}`}>
         {icon}
       </div>
@@ -185,7 +148,7 @@ const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChan
           className="w-full bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-indigo-500/50 focus:bg-black/40 transition-all text-white placeholder-gray-500"
         />
         <AnimatePresence>
-          {isOpen && suggestions.length > 0 && (
+          {open && suggestions.length > 0 && (
             <motion.div 
               initial={{ opacity: 0, y: -5 }}
               animate={{ opacity: 1, y: 0 }}
@@ -202,10 +165,13 @@ const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChan
                     handleSelect(s);
                   }}
                 >
-                  <div className="font-medium text-white text-sm">{s.name}</div>
-                  <div className="text-xs text-gray-500 truncate">
-                    {[s.street, s.city, s.state, s.country].filter(Boolean).join(', ')}
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-white text-sm truncate">{s.name}</span>
+                    {s.source === localGazetteer.id && (
+                      <span className="flex-shrink-0 text-[10px] text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded px-1">offline</span>
+                    )}
                   </div>
+                  <div className="text-xs text-gray-500 truncate">{s.detail}</div>
                 </div>
               ))}
             </motion.div>
@@ -216,12 +182,198 @@ const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({ value, onChan
   );
 };
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen, onRouteCalculated, onUserLocation }) => {
-  const [startQuery, setStartQuery] = useState('');
-  const [endQuery, setEndQuery] = useState('');
+interface SegmentedControlProps<T extends string> {
+  options: { value: T; label: string; icon?: React.ReactNode }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const SegmentedControl = <T extends string>({ options, value, onChange }: SegmentedControlProps<T>) => (
+  <div className="relative z-10 flex gap-1 p-1 rounded-xl bg-black/20 border border-white/10">
+    {options.map(option => (
+      <button
+        key={option.value}
+        type="button"
+        onClick={() => onChange(option.value)}
+        className={`flex-1 rounded-lg py-2 text-xs font-medium transition-colors flex items-center justify-center gap-1.5 ${
+          value === option.value
+            ? 'bg-indigo-500/30 text-white border border-indigo-500/40'
+            : 'text-gray-400 hover:text-white border border-transparent'
+        }`}
+      >
+        {option.icon}
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const OBJECTIVES: { value: Objective; label: string }[] = [
+  { value: 'fastest', label: 'Fastest' },
+  { value: 'shortest', label: 'Shortest' },
+];
+
+const LOCAL_SEARCHES: { value: LocalSearch; label: string }[] = [
+  { value: 'astar', label: 'A*' },
+  { value: 'alt', label: 'Bidirectional ALT' },
+];
+
+const TRACE_ALGORITHMS: { value: TraceAlgorithm; label: string }[] = [
+  { value: 'astar', label: 'A*' },
+  { value: 'dijkstra', label: 'Dijkstra' },
+];
+
+const AVOIDANCES: { value: Avoidance; label: string }[] = [
+  { value: 'motorway', label: 'Motorways' },
+  { value: 'toll', label: 'Tolls' },
+  { value: 'ferry', label: 'Ferries' },
+  { value: 'unpaved', label: 'Unpaved' },
+];
+
+const avoidanceLabel = (value: Avoidance) => AVOIDANCES.find(a => a.value === value)!.label;
+
+type Mode = 'route' | 'reach' | 'matrix';
+
+const MODES: { value: Mode; label: string; icon: React.ReactNode }[] = [
+  { value: 'route', label: 'Route', icon: <Route className="w-3.5 h-3.5" /> },
+  { value: 'reach', label: 'Reachable area', icon: <Radar className="w-3.5 h-3.5" /> },
+  { value: 'matrix', label: 'Matrix', icon: <Grid3x3 className="w-3.5 h-3.5" /> },
+];
+
+// An uploaded CSV of matrix origins or destinations
+interface LocationList {
+  file: string;
+  locations: MatrixLocation[];
+}
+
+const METRICS: { value: IsochroneMetric; label: string }[] = [
+  { value: 'time', label: 'Minutes' },
+  { value: 'distance', label: 'Kilometers' },
+];
+
+// "10, 20, 30" → budgets in seconds or meters, ascending and without repeats
+function parseBudgets(text: string, metric: IsochroneMetric): number[] {
+  const values = text.split(/[\s,;]+/).map(Number).filter(v => Number.isFinite(v) && v > 0);
+  const scale = metric === 'time' ? 60 : 1000;
+  return [...new Set(values)].sort((a, b) => a - b).slice(0, MAX_ISOCHRONE_BANDS).map(v => v * scale);
+}
+
+const budgetLabel = (budget: number, metric: IsochroneMetric) =>
+  metric === 'time' ? formatDuration(budget) : formatDistance(budget);
+
+const TRAVEL_MODES: { value: ProfileId; label: string; icon: React.ReactNode }[] = [
+  { value: 'car', label: 'Car', icon: <Car className="w-3.5 h-3.5" /> },
+  { value: 'bike', label: 'Bike', icon: <Bike className="w-3.5 h-3.5" /> },
+  { value: 'foot', label: 'Foot', icon: <Footprints className="w-3.5 h-3.5" /> },
+];
+
+// Float sums over different edge orders can differ in the last bits
+const sameCost = ({ runs }: BenchmarkResult) => {
+  const [a, b] = runs.map(run => run.cost);
+  return a === b || (a !== null && b !== null && Math.abs(a - b) <= 1e-6 * Math.max(1, a));
+};
+
+/**
+ * One address field. `coord` pins it to an exact position (GPS, a map click
+ * or a dragged marker) so it is not geocoded; typing into it unpins it.
+ */
+interface WaypointInput {
+  id: number;
+  query: string;
+  coord: Coordinate | null;
+}
+
+let nextInputId = 1;
+const newInput = (query = '', coord: Coordinate | null = null): WaypointInput => ({ id: nextInputId++, query, coord });
+
+// Shown until reverse geocoding names the spot
+const coordLabel = (c: Coordinate) => `📍 ${c.lat.toFixed(5)}, ${c.lng.toFixed(5)}`;
+
+// Inputs pinned to a link's stops; a blank label shows the coordinates until named
+const linkInputs = ({ stops }: RouteLink) =>
+  stops.length >= 2 ? stops.map(({ lat, lng, name }) => newInput(name || coordLabel({ lat, lng }), { lat, lng })) : [newInput(), newInput()];
+
+const LIVE_ROUTE_MS = 400; // minimum gap between re-routes while a marker is dragged
+
+// Position that adds the least straight-line detour when `p` joins the list
+function cheapestInsertion(points: Coordinate[], p: Coordinate): number {
+  let best = 1, bestCost = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    const cost = haversineDistance(points[i - 1], p) + haversineDistance(p, points[i]) - haversineDistance(points[i - 1], points[i]);
+    if (cost < bestCost) {
+      best = i;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
+
+const Sidebar: React.FC<SidebarProps> = ({
+  isOpen, setIsOpen, routes, selectedRoute, onRoutesCalculated, onSelectRoute, onUserLocation, activeStep, onStepHover, onStepSelect,
+  offlineNetwork, importProgress, onNetworkFile, onNetworkUnload, zones, onZonesChange, drawing, onDraw, mapEditHandlerRef,
+  isochrones, onIsochrones, importedTrack, onTrackFile, onTrackClear, searchBias, demTiles, onElevationFiles, onElevationClear,
+  onElevationHover, onNavigate, navigating, onSearchTrace
+}) => {
+  const [initialLink] = useState(readRouteLink);
+  const [mode, setMode] = useState<Mode>('route');
+  const [inputs, setInputs] = useState<WaypointInput[]>(() => linkInputs(initialLink)); // start, stops…, destination
   const [isLoading, setIsLoading] = useState(false);
-  const [routeInfo, setRouteInfo] = useState<{distance: number, duration: number, algorithm: string} | null>(null);
-  const [startCoordOverride, setStartCoordOverride] = useState<Coordinate | null>(null);
+  const [engineId, setEngineId] = useState<EngineId>(initialLink.engine ?? 'osrm');
+  const [objective, setObjective] = useState<Objective>(initialLink.objective ?? 'fastest');
+  const [profile, setProfile] = useState<ProfileId>(initialLink.profile ?? 'car');
+  const [optimizeOrder, setOptimizeOrder] = useState(false);
+  const [fixedEnd, setFixedEnd] = useState(true);
+  const [visited, setVisited] = useState<WaypointInput[]>([]); // the shown route's inputs, in visiting order
+  const [wasOptimized, setWasOptimized] = useState(false);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [localSearch, setLocalSearch] = useState<LocalSearch>('astar');
+  const [climb, setClimb] = useState(false);
+  const [avoid, setAvoid] = useState<Avoidance[]>(initialLink.avoid ?? []);
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
+  const [benchmarkProgress, setBenchmarkProgress] = useState<TaskProgress | null>(null);
+  const [traceProgress, setTraceProgress] = useState<TaskProgress | null>(null);
+  const [traceCounts, setTraceCounts] = useState<Partial<Record<TraceAlgorithm, number>>>({}); // expansions per algorithm, for comparing
+  const [budgetText, setBudgetText] = useState('10, 20, 30');
+  const [metric, setMetric] = useState<IsochroneMetric>('time');
+  const [matrixOrigins, setMatrixOrigins] = useState<LocationList | null>(null);
+  const [matrixDestinations, setMatrixDestinations] = useState<LocationList | null>(null); // null = same as the origins
+  const [matrix, setMatrix] = useState<MatrixResult | null>(null);
+  const networkInput = useRef<HTMLInputElement>(null);
+  const trackInput = useRef<HTMLInputElement>(null);
+  const demInput = useRef<HTMLInputElement>(null);
+  const originsInput = useRef<HTMLInputElement>(null);
+  const destinationsInput = useRef<HTMLInputElement>(null);
+  const searchRef = useRef<AbortController | null>(null);
+  const lastLiveRoute = useRef(0);
+  const placeNames = useRef(new WeakMap<Coordinate, string>()); // reverse-geocoded pins, for searches still in flight
+  const pendingLink = useRef(initialLink.stops.length > 0); // restored from the URL, not yet routed
+  const routeInfo = routes[selectedRoute] ?? null;
+  const start = inputs[0], destination = inputs[inputs.length - 1], stops = inputs.slice(1, -1);
+
+  const addStop = () => setInputs(prev => [...prev.slice(0, -1), newInput(), prev[prev.length - 1]]);
+  const removeStop = (id: number) => setInputs(prev => prev.filter(f => f.id !== id));
+  const updateInput = (id: number, query: string) =>
+    setInputs(prev => prev.map(f => (f.id === id ? { ...f, query, coord: null } : f)));
+  // A picked suggestion is pinned, so the search routes to exactly that place
+  const pickPlace = (id: number, place: GeocodeResult) =>
+    setInputs(prev => prev.map(f => (f.id === id ? { ...f, query: place.label, coord: place.coordinate } : f)));
+  const moveStop = (index: number, delta: number) =>
+    setInputs(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index + 1, 1);
+      next.splice(index + 1 + delta, 0, moved);
+      return next;
+    });
+
+  // Replaces the placeholder label of a pinned input once the address is known
+  const nameInput = async (id: number, coord: Coordinate) => {
+    const label = (await reverseGeocode(coord))?.label;
+    if (!label) return;
+    placeNames.current.set(coord, label);
+    const rename = (list: WaypointInput[]) => list.map(f => (f.id === id && f.coord === coord ? { ...f, query: label } : f));
+    setInputs(rename);
+    setVisited(rename);
+  };
 
   const handleUseMyLocation = () => {
     if (!navigator.geolocation) {
@@ -231,42 +383,359 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen, onRouteCalculated,
     navigator.geolocation.getCurrentPosition(
       (pos) => {
         const coord = { lat: pos.coords.latitude, lng: pos.coords.longitude };
-        setStartCoordOverride(coord);
         onUserLocation(coord);
-        setStartQuery(`📍 My Location (${coord.lat.toFixed(4)}, ${coord.lng.toFixed(4)})`);
+        setInputs(prev => [{ ...prev[0], query: `📍 My Location (${coord.lat.toFixed(4)}, ${coord.lng.toFixed(4)})`, coord }, ...prev.slice(1)]);
+        nameInput(start.id, coord);
       },
       () => alert('Unable to get your location. Please allow location access.'),
       { enableHighAccuracy: true, timeout: 5000 }
     );
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!startQuery || !endQuery) return;
+  const cancelSearch = () => {
+    searchRef.current?.abort();
+    searchRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  /**
+   * Geocodes and routes a list of inputs. Searches started from the map keep
+   * the current route on screen until the new one arrives, never reorder the
+   * stops and leave the viewport alone; `live` ones (mid-drag) also stay quiet
+   * when no route is found. Every finished route is recorded in the URL;
+   * `fromLink` ones came from it and keep a viewport the link already has.
+   */
+  const runSearch = async (list: WaypointInput[], { fromMap = false, live = false, fromLink = false } = {}) => {
+    // A new search supersedes whatever is still running
+    searchRef.current?.abort();
+    const search = new AbortController();
+    searchRef.current = search;
+    const control = { signal: search.signal, onProgress: setProgress };
 
     setIsLoading(true);
-    setRouteInfo(null);
-    onRouteCalculated(null);
-
-    // Run both geocodes in PARALLEL, use coordinate override if GPS was used
-    const [startCoord, endCoord] = await Promise.all([
-      startCoordOverride ? Promise.resolve(startCoordOverride) : geocode(startQuery),
-      geocode(endQuery)
-    ]);
-
-    if (startCoord && endCoord) {
-      const route = await fetchRoute(startCoord, endCoord);
-      if (route) {
-        onRouteCalculated(route);
-        setRouteInfo({ distance: route.distance, duration: route.duration, algorithm: route.algorithm });
-      } else {
-        alert('No drivable route found. These locations may be separated by an ocean or not connected by roads.');
+    setProgress(null);
+    if (!fromMap) onRoutesCalculated([]);
+    setBenchmark(null);
+    setTraceCounts({});
+    onSearchTrace(null);
+
+    // Blank stop rows are ignored rather than blocking the search
+    let active = list.filter((f, i) => i === 0 || i === list.length - 1 || f.coord || f.query.trim());
+    const activeZones = zones.filter(z => z.enabled);
+
+    // Run all geocodes in PARALLEL; pinned inputs skip it
+    const coords = await Promise.all(active.map(f => (f.coord ? Promise.resolve(f.coord) : geocode(f.query, searchBias).then(place => place?.coordinate ?? null))));
+    if (search.signal.aborted) return;
+
+    if (coords.every(c => c !== null)) {
+      try {
+        const engine = getEngine(engineId);
+        let points = coords as Coordinate[];
+        let optimized = false;
+
+        // Only worth solving when at least one stop is free to move
+        const movable = points.length - (fixedEnd ? 2 : 1);
+        if (optimizeOrder && !fromMap && movable > 1) {
+          const matrix = await engine.matrix(points, points, { objective, profile, search: localSearch, avoid, zones: activeZones }, control);
+          if (search.signal.aborted) return;
+          if (matrix) {
+            const order = optimizeVisitOrder(objective === 'fastest' ? matrix.durations : matrix.distances, fixedEnd);
+            points = order.map(i => points[i]);
+            active = order.map(i => active[i]);
+            optimized = true;
+          } else {
+            console.warn('Cost matrix unavailable, keeping the entered stop order');
+          }
+        }
+
+        const found = await engine.route(points, { objective, profile, search: localSearch, avoid, zones: activeZones, climb }, control);
+        if (search.signal.aborted) return;
+        if (found.length > 0) {
+          onRoutesCalculated(found, !fromMap && !(fromLink && readViewport()));
+          const route = active.map((f, i) => ({ ...f, query: placeNames.current.get(points[i]) ?? f.query, coord: points[i] }));
+          setVisited(route);
+          if (!live) {
+            // Pin placeholders ("📍 …") are left out; the link's coordinates say the same
+            const stops = route.map(f => ({ ...f.coord, name: f.query.startsWith('📍') ? '' : f.query }));
+            saveRouteLink({ stops, engine: engineId, profile, objective, avoid }, fromLink ? 'replace' : 'push');
+          }
+          setWasOptimized(optimized);
+        } else if (!live) {
+          alert('No route found for this travel mode. These locations may be separated by an ocean or not connected by usable roads.');
+        }
+      } catch (error) {
+        if (search.signal.aborted) return;
+        console.error('Route search failed:', error);
+        if (!live) alert(`Could not compute the route: ${error instanceof Error ? error.message : error}`);
       }
-    } else {
+    } else if (!live) {
       alert('Could not locate one of the addresses.');
     }
 
+    searchRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  // Reachable area from one input; always on the local graph, OSRM has no equivalent
+  const runIsochrones = async (origin: WaypointInput) => {
+    const budgets = parseBudgets(budgetText, metric);
+    if (budgets.length === 0) {
+      alert(`Enter one or more ${metric === 'time' ? 'minute' : 'kilometer'} values, e.g. 10, 20, 30.`);
+      return;
+    }
+
+    searchRef.current?.abort();
+    const search = new AbortController();
+    searchRef.current = search;
+
+    setIsLoading(true);
+    setProgress(null);
+    onRoutesCalculated([]);
+
+    const coord = origin.coord ?? (await geocode(origin.query, searchBias))?.coordinate;
+    if (search.signal.aborted) return;
+    if (coord) {
+      try {
+        const result = await runInWorker(
+          { type: 'isochrone', origin: coord, budgets, metric, options: { objective, profile, avoid, zones: zones.filter(z => z.enabled) } },
+          { signal: search.signal, onProgress: setProgress }
+        );
+        if (search.signal.aborted) return;
+        onIsochrones(result);
+        if (!result) alert('There is no usable road near this point for this travel mode.');
+      } catch (error) {
+        if (search.signal.aborted) return;
+        console.error('Isochrone failed:', error);
+        alert(`Could not compute the reachable area: ${error instanceof Error ? error.message : error}`);
+      }
+    } else {
+      alert('Could not locate the starting point.');
+    }
+
+    searchRef.current = null;
     setIsLoading(false);
+    setProgress(null);
+  };
+
+  const loadLocations = async (file: File, onLoad: (list: LocationList) => void) => {
+    try {
+      onLoad({ file: file.name, locations: parseLocationsCsv(await file.text()) });
+    } catch (error) {
+      console.error('Location file import failed:', error);
+      alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  /**
+   * N×M distances and durations between the uploaded locations. Address rows
+   * are geocoded one at a time first, so a long list does not flood the
+   * geocoders; any that cannot be found stop the run.
+   */
+  const runMatrix = async (origins: MatrixLocation[], destinations: MatrixLocation[]) => {
+    searchRef.current?.abort();
+    const search = new AbortController();
+    searchRef.current = search;
+    const control = { signal: search.signal, onProgress: setProgress };
+
+    setIsLoading(true);
+    setProgress(null);
+    setMatrix(null);
+    onRoutesCalculated([]);
+
+    const pending = [...new Set([...origins, ...destinations].filter(l => !l.coordinate))];
+    const found = new Map<MatrixLocation, Coordinate>();
+    for (const [i, location] of pending.entries()) {
+      setProgress({ stage: 'geocode', done: i, total: pending.length });
+      const place = await geocode(location.address, searchBias);
+      if (search.signal.aborted) return;
+      if (place) found.set(location, place.coordinate);
+    }
+
+    const missing = pending.filter(l => !found.has(l));
+    if (missing.length === 0) {
+      const locate = (l: MatrixLocation): LocatedPlace => ({ name: l.name, ...(l.coordinate ?? found.get(l)!) });
+      const sources = origins.map(locate), targets = destinations.map(locate);
+      try {
+        const options = { objective, profile, avoid, zones: zones.filter(z => z.enabled) };
+        const result = await getEngine(engineId).matrix(sources, targets, options, control);
+        if (search.signal.aborted) return;
+        if (result) setMatrix({ ...result, sources, destinations: targets, engine: engineId, profile, objective });
+        else alert('Could not compute the matrix. The locations may be too far apart or away from usable roads.');
+      } catch (error) {
+        if (search.signal.aborted) return;
+        console.error('Matrix failed:', error);
+        alert(`Could not compute the matrix: ${error instanceof Error ? error.message : error}`);
+      }
+    } else {
+      const names = missing.slice(0, 5).map(l => l.name).join(', ');
+      alert(`Could not locate ${missing.length} of the addresses: ${names}${missing.length > 5 ? ', …' : ''}`);
+    }
+
+    searchRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'matrix') {
+      if (matrixOrigins) runMatrix(matrixOrigins.locations, (matrixDestinations ?? matrixOrigins).locations);
+      return;
+    }
+    if (mode === 'reach') {
+      if (start.query) runIsochrones(start);
+      return;
+    }
+    if (!start.query || !destination.query) return;
+    runSearch(inputs);
+  };
+
+  const exportCurrentRoute = (format: RouteFileFormat) => {
+    if (!routeInfo) return;
+    const names = visited.length === routeInfo.waypoints.length ? visited.map(f => f.query) : [];
+    const { extension, mime } = ROUTE_FILE_TYPES[format];
+    downloadText(`route.${extension}`, exportRoute(routeInfo, names, format), mime);
+  };
+
+  // Replaces the inputs with the imported file's stops (or points along its track) and routes them
+  const routeThroughTrack = () => {
+    if (!importedTrack) return;
+    const list = trackWaypoints(importedTrack).map(({ lat, lng, name }) => newInput(name, { lat, lng }));
+    switchMode('route');
+    setInputs(list);
+    runSearch(list);
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    if (next !== 'reach') onIsochrones(null);
+  };
+
+  /**
+   * Applies a click or drag on the map. Edits work on the route as drawn, so
+   * once there is one the inputs are rebuilt in its visiting order first.
+   */
+  const handleMapEdit = (edit: MapEdit) => {
+    // Navigation left the route: carry on from here to the waypoints not yet reached
+    if (edit.type === 'reroute') {
+      const rest = (routeInfo && visited.length === routeInfo.waypoints.length ? visited : inputs).slice(edit.nextWaypoint);
+      if (rest.length === 0) return;
+      const list = [newInput(coordLabel(edit.coord), edit.coord), ...rest];
+      setInputs(list);
+      runSearch(list, { fromMap: true, live: true });
+      return;
+    }
+
+    // Reachable-area mode has just the one point; any other edit means a route is wanted
+    if (mode === 'reach' && edit.type === 'start') {
+      const origin = newInput(coordLabel(edit.coord), edit.coord);
+      setInputs(prev => [origin, ...prev.slice(1)]);
+      nameInput(origin.id, edit.coord);
+      runIsochrones(origin);
+      return;
+    }
+    if (mode !== 'route') switchMode('route');
+
+    const list = [...(routeInfo && visited.length === routeInfo.waypoints.length ? visited : inputs)];
+    const pinned = newInput(coordLabel(edit.coord), edit.coord);
+
+    if (edit.type === 'start') list[0] = pinned;
+    else if (edit.type === 'end') list[list.length - 1] = pinned;
+    else if (edit.type === 'move') list[edit.index] = { ...list[edit.index], query: coordLabel(edit.coord), coord: edit.coord };
+    else if (list.every(f => f.coord)) list.splice(cheapestInsertion(list.map(f => f.coord!), edit.coord), 0, pinned);
+    else list.splice(list.length - 1, 0, pinned); // no positions to compare yet: just before the destination
+    setInputs(list);
+
+    const live = edit.type === 'move' && edit.live;
+    if (!live) {
+      const changed = edit.type === 'move' ? list[edit.index] : pinned;
+      nameInput(changed.id, changed.coord!);
+    } else if (performance.now() - lastLiveRoute.current < LIVE_ROUTE_MS) {
+      return;
+    }
+    lastLiveRoute.current = performance.now();
+
+    const ready = (f: WaypointInput) => f.coord || f.query.trim();
+    if (ready(list[0]) && ready(list[list.length - 1])) runSearch(list, { fromMap: true, live });
+  };
+
+  // Routes a link once the inputs it restored have rendered
+  useEffect(() => {
+    if (!pendingLink.current) return;
+    const timer = setTimeout(() => {
+      pendingLink.current = false;
+      runSearch(inputs, { fromLink: true });
+    });
+    return () => clearTimeout(timer);
+  });
+
+  // Back and forward restore the route that entry was recorded with
+  useEffect(() => {
+    const onPopState = () => {
+      const link = readRouteLink();
+      switchMode('route');
+      setInputs(linkInputs(link));
+      if (link.engine) setEngineId(link.engine);
+      if (link.profile) setProfile(link.profile);
+      if (link.objective) setObjective(link.objective);
+      setAvoid(link.avoid ?? []);
+      if (link.stops.length > 0) {
+        pendingLink.current = true;
+      } else {
+        cancelSearch();
+        setVisited([]);
+        onRoutesCalculated([]);
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  });
+
+  // The map reports edits through App, which holds this ref
+  useEffect(() => {
+    mapEditHandlerRef.current = handleMapEdit;
+  });
+
+  // Re-routes the current waypoints with both local searches and compares them
+  const runBenchmark = async () => {
+    if (!routeInfo) return;
+    setBenchmarkProgress({ stage: 'search', done: 0 });
+    try {
+      const result = await runInWorker(
+        { type: 'benchmark', waypoints: routeInfo.waypoints.map(([lat, lng]) => ({ lat, lng })), options: { objective, profile } },
+        { onProgress: setBenchmarkProgress }
+      );
+      if (result) setBenchmark(result);
+      else alert('These locations could not be placed on the local road network.');
+    } catch (error) {
+      console.error('Benchmark failed:', error);
+      alert('Benchmark failed. See the console for details.');
+    }
+    setBenchmarkProgress(null);
+  };
+
+  // Records one local search over the current waypoints for the map to replay
+  const runTrace = async (algorithm: TraceAlgorithm) => {
+    if (!routeInfo) return;
+    setTraceProgress({ stage: 'search', done: 0 });
+    try {
+      const trace = await runInWorker(
+        { type: 'trace', waypoints: routeInfo.waypoints.map(([lat, lng]) => ({ lat, lng })), algorithm, options: { objective, profile } },
+        { onProgress: setTraceProgress }
+      );
+      if (trace) {
+        onSearchTrace(trace);
+        setTraceCounts(prev => ({ ...prev, [algorithm]: trace.steps }));
+      } else {
+        alert('These locations could not be placed on the local road network.');
+      }
+    } catch (error) {
+      console.error('Search trace failed:', error);
+      alert('Search trace failed. See the console for details.');
+    }
+    setTraceProgress(null);
   };
 
   return (
@@ -311,96 +780,801 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen, onRouteCalculated,
                 </button>
               </div>
 
-              {/* Form Area */}
-              <div className="p-6 flex-shrink-0">
-                <form onSubmit={handleSearch} className="space-y-4 relative">
-                  {/* Decorative line */}
-                  <div className="absolute left-[1.1rem] top-8 bottom-12 w-0.5 bg-gradient-to-b from-indigo-500/50 to-purple-500/50 z-0"></div>
-
-                  <AddressAutocomplete
-                    value={startQuery}
-                    onChange={(v) => { setStartQuery(v); setStartCoordOverride(null); }}
-                    placeholder="Start point"
-                    icon={<div className="w-2.5 h-2.5 rounded-full bg-indigo-500"></div>}
-                    iconBgHover="group-hover:border-indigo-500/50"
-                  />
-
-                  {/* Use My Location Button */}
-                  <div className="relative z-10 pl-11">
+              <div className="flex-1 overflow-y-auto custom-scrollbar">
+                {/* Form Area */}
+                <div className="p-6 flex-shrink-0">
+                  <form onSubmit={handleSearch} className="space-y-4 relative">
+                    {/* Route, Reachable Area or Matrix */}
+                    <SegmentedControl options={MODES} value={mode} onChange={switchMode} />
+
+                    {/* Decorative line */}
+                    {mode === 'route' && (
+                      <div className="absolute left-[1.1rem] top-24 bottom-12 w-0.5 bg-gradient-to-b from-indigo-500/50 to-purple-500/50 z-0"></div>
+                    )}
+
+                    {mode !== 'matrix' && (<>
+                    <AddressAutocomplete
+                      value={start.query}
+                      onChange={(v) => updateInput(start.id, v)}
+                      onSelect={(place) => pickPlace(start.id, place)}
+                      bias={searchBias}
+                      placeholder={mode === 'route' ? 'Start point' : 'Starting point'}
+                      icon={<div className="w-2.5 h-2.5 rounded-full bg-indigo-500"></div>}
+                      iconBgHover="group-hover:border-indigo-500/50"
+                    />
+
+                    {/* Use My Location Button */}
+                    <div className="relative z-10 pl-11">
+                      <button
+                        type="button"
+                        onClick={handleUseMyLocation}
+                        className="flex items-center gap-1.5 text-xs text-indigo-400 hover:text-indigo-300 transition-colors py-1"
+                      >
+                        <Crosshair className="w-3 h-3" />
+                        Use my current location
+                      </button>
+                    </div>
+                    </>)}
+
+                    {/* Reach Budgets */}
+                    {mode === 'reach' && (
+                      <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3 space-y-2">
+                        <label className="flex items-center gap-2 text-xs text-gray-400">
+                          <span className="flex-shrink-0">Reach within</span>
+                          <input
+                            value={budgetText}
+                            onChange={(e) => setBudgetText(e.target.value)}
+                            placeholder="10, 20, 30"
+                            className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500/50"
+                          />
+                        </label>
+                        <SegmentedControl options={METRICS} value={metric} onChange={setMetric} />
+                      </div>
+                    )}
+
+                    {/* Matrix Locations */}
+                    {mode === 'matrix' && (
+                      <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3 space-y-2 text-xs">
+                        {([
+                          { label: 'Origins', list: matrixOrigins, input: originsInput, onLoad: setMatrixOrigins },
+                          { label: 'Destinations', list: matrixDestinations, input: destinationsInput, onLoad: setMatrixDestinations },
+                        ] as const).map(({ label, list, input, onLoad }) => (
+                          <div key={label} className="flex items-center gap-2">
+                            <input
+                              ref={input}
+                              type="file"
+                              accept=".csv,.tsv,.txt"
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) loadLocations(file, onLoad);
+                                e.target.value = '';
+                              }}
+                            />
+                            <FileSpreadsheet className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-gray-400">{label}</div>
+                              <div className="text-white truncate">
+                                {list
+                                  ? `${list.file} · ${list.locations.length} ${list.locations.length === 1 ? 'place' : 'places'}`
+                                  : label === 'Origins' ? 'No file' : 'Same as origins'}
+                              </div>
+                            </div>
+                            {list && (
+                              <button
+                                type="button"
+                                title="Remove"
+                                onClick={() => onLoad(null)}
+                                className="p-1 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => input.current?.click()}
+                              className="px-2 py-1 rounded-lg text-emerald-400 hover:text-emerald-300 hover:bg-white/5 transition-colors"
+                            >
+                              {list ? 'Replace' : 'Load CSV'}
+                            </button>
+                          </div>
+                        ))}
+                        <div className="text-gray-500">
+                          One place per row: name, lat, lng — or name, address to look it up. At most {MAX_MATRIX_LOCATIONS} per file.
+                        </div>
+                      </div>
+                    )}
+
+                    {mode === 'route' && (<>
+                    {/* Intermediate Stops */}
+                    {stops.map((stop, i) => (
+                      <div key={stop.id} className="relative flex items-center gap-1">
+                        <div className="flex-1 min-w-0">
+                          <AddressAutocomplete
+                            value={stop.query}
+                            onChange={(v) => updateInput(stop.id, v)}
+                            onSelect={(place) => pickPlace(stop.id, place)}
+                            bias={searchBias}
+                            placeholder={`Stop ${i + 1}`}
+                            icon={<span className="text-[10px] font-semibold text-amber-300">{i + 1}</span>}
+                            iconBgHover="group-hover:border-amber-500/50"
+                          />
+                        </div>
+                        <div className="flex flex-col text-gray-500">
+                          <button
+                            type="button"
+                            onClick={() => moveStop(i, -1)}
+                            disabled={i === 0}
+                            className="hover:text-white disabled:opacity-30 transition-colors"
+                          >
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveStop(i, 1)}
+                            disabled={i === stops.length - 1}
+                            className="hover:text-white disabled:opacity-30 transition-colors"
+                          >
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => removeStop(stop.id)}
+                          className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/5 transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+
+                    <div className="relative z-10 pl-11">
+                      <button
+                        type="button"
+                        onClick={addStop}
+                        className="flex items-center gap-1.5 text-xs text-amber-300 hover:text-amber-200 transition-colors py-1"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Add stop
+                      </button>
+                    </div>
+
+                    <AddressAutocomplete
+                      value={destination.query}
+                      onChange={(v) => updateInput(destination.id, v)}
+                      onSelect={(place) => pickPlace(destination.id, place)}
+                      bias={searchBias}
+                      placeholder="Destination"
+                      icon={<MapPin className="w-4 h-4 text-purple-400" />}
+                      iconBgHover="group-hover:border-purple-500/50"
+                    />
+
+                    {/* Stop Order Optimization */}
+                    {stops.length > 0 && (
+                      <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3 space-y-2">
+                        <label className="flex items-center justify-between text-xs text-gray-300 cursor-pointer">
+                          <span className="flex items-center gap-1.5">
+                            <Shuffle className="w-3 h-3" />
+                            Optimize stop order
+                          </span>
+                          <input
+                            type="checkbox"
+                            checked={optimizeOrder}
+                            onChange={(e) => setOptimizeOrder(e.target.checked)}
+                            className="accent-indigo-500"
+                          />
+                        </label>
+                        {optimizeOrder && (
+                          <div className="flex gap-1">
+                            {[true, false].map(fixed => (
+                              <button
+                                key={String(fixed)}
+                                type="button"
+                                onClick={() => setFixedEnd(fixed)}
+                                className={`flex-1 rounded-lg py-1.5 text-xs transition-colors ${
+                                  fixedEnd === fixed
+                                    ? 'bg-indigo-500/30 text-white'
+                                    : 'text-gray-400 hover:text-white'
+                                }`}
+                              >
+                                {fixed ? 'End at destination' : 'Free end'}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    </>)}
+
+                    {/* Travel Mode */}
+                    <SegmentedControl options={TRAVEL_MODES} value={profile} onChange={setProfile} />
+
+                    {mode !== 'reach' && (<>
+                    {/* Routing Engine Selector */}
+                    <SegmentedControl
+                      options={ROUTING_ENGINES.map(engine => ({ value: engine.id, label: engine.label }))}
+                      value={engineId}
+                      onChange={setEngineId}
+                    />
+
+                    {/* Optimization Objective */}
+                    <SegmentedControl options={OBJECTIVES} value={objective} onChange={setObjective} />
+
+                    {/* Local Search Algorithm */}
+                    {mode === 'route' && engineId === 'local' && (
+                      <SegmentedControl options={LOCAL_SEARCHES} value={localSearch} onChange={setLocalSearch} />
+                    )}
+                    </>)}
+
+                    {/* Avoidances */}
+                    {mode !== 'matrix' && (
+                    <div className="relative z-10 flex flex-wrap items-center gap-1.5 text-xs">
+                      <span className="text-gray-500 mr-1">Avoid</span>
+                      {AVOIDANCES.map(option => {
+                        const active = avoid.includes(option.value);
+                        return (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => setAvoid(active ? avoid.filter(a => a !== option.value) : [...avoid, option.value])}
+                            className={`rounded-full px-2.5 py-1 border transition-colors ${
+                              active
+                                ? 'bg-indigo-500/30 text-white border-indigo-500/40'
+                                : 'text-gray-400 hover:text-white border-white/10'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    )}
+
+                    {/* Avoid-Zones */}
+                    <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3 space-y-2 text-xs">
+                      <div className="flex items-center gap-2">
+                        <Ban className="w-4 h-4 text-rose-400 flex-shrink-0" />
+                        <span className="flex-1 text-gray-400">Avoid-zones</span>
+                        {(['polygon', 'circle'] as const).map(mode => (
+                          <button
+                            key={mode}
+                            type="button"
+                            onClick={() => onDraw(drawing === mode ? null : mode)}
+                            className={`flex items-center gap-1 px-2 py-1 rounded-lg transition-colors ${
+                              drawing === mode ? 'bg-rose-500/20 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'
+                            }`}
+                          >
+                            {mode === 'polygon' ? <Pentagon className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+                            {mode === 'polygon' ? 'Polygon' : 'Circle'}
+                          </button>
+                        ))}
+                      </div>
+                      {drawing && (
+                        <div className="text-gray-500">
+                          {drawing === 'polygon'
+                            ? 'Click to add corners, double-click to finish. Esc cancels.'
+                            : 'Click the centre, then a point on the edge. Esc cancels.'}
+                        </div>
+                      )}
+                      {zones.map(zone => (
+                        <div key={zone.id} className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            title={zone.enabled ? 'Switch off' : 'Switch on'}
+                            onClick={() => onZonesChange(zones.map(z => (z.id === zone.id ? { ...z, enabled: !z.enabled } : z)))}
+                            className={zone.enabled ? 'text-rose-400 hover:text-rose-300' : 'text-gray-600 hover:text-gray-400'}
+                          >
+                            {zone.enabled ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                          </button>
+                          <input
+                            value={zone.name}
+                            onChange={(e) => onZonesChange(zones.map(z => (z.id === zone.id ? { ...z, name: e.target.value } : z)))}
+                            className={`flex-1 min-w-0 bg-transparent focus:outline-none focus:text-white ${zone.enabled ? 'text-gray-300' : 'text-gray-600'}`}
+                          />
+                          <button
+                            type="button"
+                            title="Delete zone"
+                            onClick={() => onZonesChange(zones.filter(z => z.id !== zone.id))}
+                            className="text-gray-600 hover:text-white transition-colors"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Imported Route File */}
+                    <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3">
+                      <input
+                        ref={trackInput}
+                        type="file"
+                        accept=".gpx,.geojson,.kml"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) onTrackFile(file);
+                          e.target.value = '';
+                        }}
+                      />
+                      {importedTrack ? (
+                        <div className="space-y-2 text-xs">
+                          <div className="flex items-center gap-2">
+                            <FileUp className="w-4 h-4 text-orange-400 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-white truncate">{importedTrack.name}</div>
+                              <div className="text-gray-500">
+                                {ROUTE_FILE_TYPES[importedTrack.format].label} · {formatDistance(importedTrack.distance)}
+                                {importedTrack.duration !== null && ` · ${formatDuration(importedTrack.duration)}`}
+                                {` · ${importedTrack.stops.length} stops`}
+                              </div>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={onTrackClear}
+                              className="px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          {routeInfo && (
+                            <div className="text-gray-400">
+                              Route {formatDistance(routeInfo.distance)} vs file {formatDistance(importedTrack.distance)}
+                              {' · '}{Math.round(100 * trackOverlap(importedTrack, routeInfo))}% of the file follows the route
+                            </div>
+                          )}
+                          <button
+                            type="button"
+                            onClick={routeThroughTrack}
+                            className="w-full flex items-center justify-center gap-1.5 text-orange-400 hover:text-orange-300 transition-colors py-1"
+                          >
+                            <Route className="w-3 h-3" />
+                            Re-route through its {importedTrack.stops.length >= 2 ? 'stops' : 'points'}
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => trackInput.current?.click()}
+                          className="w-full flex items-center justify-center gap-1.5 text-xs text-orange-400 hover:text-orange-300 transition-colors py-1"
+                        >
+                          <FileUp className="w-3 h-3" />
+                          Import a route (.gpx, .geojson, .kml)
+                        </button>
+                      )}
+                    </div>
+
+                    {/* Offline Road Network */}
+                    <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3">
+                      <input
+                        ref={networkInput}
+                        type="file"
+                        accept=".osm,.xml,.json,.pbf"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) onNetworkFile(file);
+                          e.target.value = '';
+                        }}
+                      />
+                      {offlineNetwork ? (
+                        <div className="flex items-center gap-2 text-xs">
+                          <HardDrive className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-white truncate">{offlineNetwork.name}</div>
+                            <div className="text-gray-500">
+                              {offlineNetwork.stats.ways.toLocaleString()} roads · {offlineNetwork.stats.nodes.toLocaleString()} nodes
+                              {engineId !== 'local' && ' · used by Local A*'}
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={onNetworkUnload}
+                            className="px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                          >
+                            Unload
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => networkInput.current?.click()}
+                          disabled={importProgress !== null}
+                          className="w-full flex items-center justify-center gap-1.5 text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-50 transition-colors py-1"
+                        >
+                          {importProgress ? (
+                            <div className="w-3 h-3 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full animate-spin"></div>
+                          ) : (
+                            <Upload className="w-3 h-3" />
+                          )}
+                          {importProgress ? formatProgress(importProgress) : 'Load offline map (.osm, .json, .pbf) or drop it on the map'}
+                        </button>
+                      )}
+                    </div>
+
+                    {/* Elevation Tiles */}
+                    <div className="relative z-10 rounded-xl bg-black/20 border border-white/10 p-3 space-y-2">
+                      <input
+                        ref={demInput}
+                        type="file"
+                        accept=".hgt,.tif,.tiff"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          const files = [...(e.target.files ?? [])];
+                          if (files.length > 0) onElevationFiles(files);
+                          e.target.value = '';
+                        }}
+                      />
+                      {demTiles.length > 0 ? (
+                        <>
+                          <div className="flex items-center gap-2 text-xs">
+                            <Mountain className="w-4 h-4 text-lime-400 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-white truncate">{demTiles.map(t => t.name).join(', ')}</div>
+                              <div className="text-gray-500">
+                                {demTiles.length} elevation {demTiles.length === 1 ? 'tile' : 'tiles'} · {Math.min(...demTiles.map(t => t.resolution))} m grid
+                              </div>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => demInput.current?.click()}
+                              className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                              <Plus className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={onElevationClear}
+                              className="px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                              Clear
+                            </button>
+                          </div>
+                          {mode === 'route' && engineId === 'local' && (
+                            <label className="flex items-center justify-between text-xs text-gray-300 cursor-pointer">
+                              <span>Prefer flatter roads</span>
+                              <input
+                                type="checkbox"
+                                checked={climb}
+                                onChange={(e) => setClimb(e.target.checked)}
+                                className="accent-indigo-500"
+                              />
+                            </label>
+                          )}
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => demInput.current?.click()}
+                          className="w-full flex items-center justify-center gap-1.5 text-xs text-lime-400 hover:text-lime-300 transition-colors py-1"
+                        >
+                          <Mountain className="w-3 h-3" />
+                          Load elevation tiles (.hgt, GeoTIFF) or drop them on the map
+                        </button>
+                      )}
+                    </div>
+
+                    <button 
+                      type="submit" 
+                      className="w-full mt-6 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white rounded-xl py-3.5 px-4 font-medium flex items-center justify-center gap-2 transition-all shadow-lg shadow-indigo-500/25 disabled:opacity-50"
+                    >
+                      {isLoading ? (
+                        <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                      ) : (
+                        <>
+                          <Search className="w-4 h-4" />
+                          <span>{mode === 'route' ? 'Find route' : mode === 'reach' ? 'Show reachable area' : 'Compute matrix'}</span>
+                        </>
+                      )}
+                    </button>
+
+                    {isLoading && (
+                      <div className="flex items-center justify-between text-xs text-gray-400">
+                        <span className="truncate">{progress ? formatProgress(progress) : 'Locating addresses…'}</span>
+                        <button
+                          type="button"
+                          onClick={cancelSearch}
+                          className="ml-2 text-gray-500 hover:text-white transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </form>
+                </div>
+
+                {/* Reachable Area */}
+                {mode === 'reach' && isochrones && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="px-6 pb-6"
+                  >
+                    <div className="rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+                      <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5">
+                        Reachable by {TRAVEL_MODES.find(m => m.value === isochrones.profile)?.label.toLowerCase()} within
+                      </div>
+                      {isochrones.isochrones.map((band, i) => (
+                        <div key={band.budget} className="px-4 py-2 border-b border-white/5 last:border-0 flex items-center gap-3 text-sm text-gray-300">
+                          <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: ISOCHRONE_COLORS[i] }}></span>
+                          <span className="flex-1">{budgetLabel(band.budget, isochrones.metric)}</span>
+                          <span className="text-xs text-gray-500">
+                            {band.polygons.length} {band.polygons.length === 1 ? 'area' : 'areas'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {isochrones.clipped && (
+                      <div className="mt-3 text-center text-[11px] text-amber-300">
+                        Only roads within 6 km were loaded — the outer bands may be cut off
+                      </div>
+                    )}
+
                     <button
                       type="button"
-                      onClick={handleUseMyLocation}
-                      className="flex items-center gap-1.5 text-xs text-indigo-400 hover:text-indigo-300 transition-colors py-1"
+                      onClick={() => downloadText(`reachable-${isochrones.profile}.geojson`, isochronesToGeoJSON(isochrones), 'application/geo+json')}
+                      className="mt-4 w-full flex items-center justify-center gap-1.5 rounded-xl py-2.5 text-xs font-medium text-gray-400 hover:text-white bg-white/5 border border-white/10 transition-colors"
                     >
-                      <Crosshair className="w-3 h-3" />
-                      Use my current location
+                      <Download className="w-3.5 h-3.5" />
+                      Export as GeoJSON
                     </button>
-                  </div>
+                  </motion.div>
+                )}
 
-                  <AddressAutocomplete
-                    value={endQuery}
-                    onChange={setEndQuery}
-                    placeholder="Destination"
-                    icon={<MapPin className="w-4 h-4 text-purple-400" />}
-                    iconBgHover="group-hover:border-purple-500/50"
-                  />
-
-                  <button 
-                    type="submit" 
-                    disabled={isLoading}
-                    className="w-full mt-6 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white rounded-xl py-3.5 px-4 font-medium flex items-center justify-center gap-2 transition-all shadow-lg shadow-indigo-500/25 disabled:opacity-50"
+                {/* Travel Matrix */}
+                {mode === 'matrix' && matrix && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="px-6 pb-6"
                   >
-                    {isLoading ? (
-                      <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                    ) : (
-                      <>
-                        <Search className="w-4 h-4" />
-                        <span>Find route</span>
-                      </>
+                    <MatrixTable result={matrix} />
+                  </motion.div>
+                )}
+
+                {/* Results Area */}
+                {mode === 'route' && routeInfo && (
+                  <motion.div 
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="px-6 pb-6"
+                  >
+                    <div className="p-4 rounded-xl bg-white/5 border border-white/10 mb-6 flex items-center justify-around">
+                      <div className="flex flex-col items-center">
+                        <div className="text-gray-400 text-xs mb-1 flex items-center gap-1">
+                          <ArrowRight className="w-3 h-3" /> Distance
+                        </div>
+                        <div className="text-xl font-semibold text-white">
+                          {formatDistance(routeInfo.distance)}
+                        </div>
+                      </div>
+                      <div className="w-px h-10 bg-white/10"></div>
+                      <div className="flex flex-col items-center">
+                        <div className="text-gray-400 text-xs mb-1 flex items-center gap-1">
+                          <Clock className="w-3 h-3" /> Est. Time
+                        </div>
+                        <div className="text-xl font-semibold text-white">
+                          {formatDuration(routeInfo.duration)}
+                        </div>
+                      </div>
+                    </div>
+                    
+                    <div className="mt-4 flex items-center justify-center gap-2">
+                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-500/20 text-indigo-300 border border-indigo-500/30">
+                        ⚡ {routeInfo.algorithm}
+                      </span>
+                    </div>
+
+                    {/* Export */}
+                    <div className="mt-3 flex items-center justify-center gap-1.5 text-xs">
+                      <Download className="w-3.5 h-3.5 text-gray-500" />
+                      {(Object.keys(ROUTE_FILE_TYPES) as RouteFileFormat[]).map(format => (
+                        <button
+                          key={format}
+                          type="button"
+                          onClick={() => exportCurrentRoute(format)}
+                          className="px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                        >
+                          {ROUTE_FILE_TYPES[format].label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {/* Navigation */}
+                    <div className="mt-3 grid grid-cols-2 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onNavigate(false)}
+                        disabled={navigating}
+                        className="py-2 rounded-xl bg-indigo-500/20 border border-indigo-500/40 text-sm text-white hover:bg-indigo-500/30 disabled:opacity-50 transition-colors flex items-center justify-center gap-1.5"
+                      >
+                        <Navigation2 className="w-4 h-4" /> Navigate
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onNavigate(true)}
+                        disabled={navigating}
+                        title={importedTrack ? 'Replay the imported track' : 'Drive the route'}
+                        className="py-2 rounded-xl bg-white/5 border border-white/10 text-sm text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-50 transition-colors flex items-center justify-center gap-1.5"
+                      >
+                        <PlayCircle className="w-4 h-4" /> Simulate
+                      </button>
+                    </div>
+
+                    {routeInfo.fallback && (
+                      <div className="mt-3 text-center text-[11px] text-amber-300">
+                        {routeInfo.fallback} — rerouted with the local engine
+                      </div>
                     )}
-                  </button>
-                </form>
-              </div>
 
-              {/* Results Area */}
-              {routeInfo && (
-                <motion.div 
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="flex-1 overflow-y-auto px-6 pb-6 custom-scrollbar"
-                >
-                  <div className="p-4 rounded-xl bg-white/5 border border-white/10 mb-6 flex items-center justify-around">
-                    <div className="flex flex-col items-center">
-                      <div className="text-gray-400 text-xs mb-1 flex items-center gap-1">
-                        <ArrowRight className="w-3 h-3" /> Distance
+                    {Object.values(routeInfo.avoidance).some(list => list.length > 0) && (
+                      <div className="mt-3 flex flex-wrap items-center justify-center gap-1.5 text-[11px]">
+                        {routeInfo.avoidance.honored.map(a => (
+                          <span key={a} className="px-2 py-0.5 rounded-full bg-emerald-500/15 text-emerald-300 border border-emerald-500/30">
+                            ✓ No {avoidanceLabel(a).toLowerCase()}
+                          </span>
+                        ))}
+                        {routeInfo.avoidance.violated.map(a => (
+                          <span key={a} className="px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-300 border border-amber-500/30">
+                            ⚠ Uses {avoidanceLabel(a).toLowerCase()}
+                          </span>
+                        ))}
+                        {routeInfo.avoidance.zones.map((name, i) => (
+                          <span key={`zone-${i}`} className="px-2 py-0.5 rounded-full bg-rose-500/15 text-rose-300 border border-rose-500/30">
+                            ⚠ Enters {name}
+                          </span>
+                        ))}
+                        {routeInfo.avoidance.unsupported.map(a => (
+                          <span key={a} className="px-2 py-0.5 rounded-full bg-white/5 text-gray-400 border border-white/10">
+                            ? {avoidanceLabel(a)} not checked by this engine
+                          </span>
+                        ))}
                       </div>
-                      <div className="text-xl font-semibold text-white">
-                        {formatDistance(routeInfo.distance)}
+                    )}
+
+                    {routes.length > 1 && (
+                    <div className="mt-4">
+                      <div className="text-xs font-medium text-gray-400 mb-2">Compare routes</div>
+                      <div className="grid grid-cols-3 gap-2">
+                        {routes.map((route, i) => {
+                          const fastest = Math.min(...routes.map(r => r.duration));
+                          const extra = route.duration - fastest;
+                          return (
+                            <button
+                              key={i}
+                              type="button"
+                              onClick={() => onSelectRoute(i)}
+                              className={`rounded-xl p-2.5 text-left border transition-colors ${
+                                selectedRoute === i
+                                  ? 'bg-indigo-500/20 border-indigo-500/40'
+                                  : 'bg-white/5 border-white/10 hover:bg-white/10'
+                              }`}
+                            >
+                              <div className="text-[11px] text-gray-400">Route {String.fromCharCode(65 + i)}</div>
+                              <div className="text-sm font-semibold text-white">{formatDuration(route.duration)}</div>
+                              <div className="text-xs text-gray-400">{formatDistance(route.distance)}</div>
+                              <div className={`text-[11px] mt-0.5 ${extra > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+                                {extra > 0 ? `+${formatDuration(extra)}` : 'Fastest'}
+                              </div>
+                            </button>
+                          );
+                        })}
                       </div>
                     </div>
-                    <div className="w-px h-10 bg-white/10"></div>
-                    <div className="flex flex-col items-center">
-                      <div className="text-gray-400 text-xs mb-1 flex items-center gap-1">
-                        <Clock className="w-3 h-3" /> Est. Time
+                  )}
+
+                  {routeInfo.legs.length > 1 && (
+                      <div className="mt-4 rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+                        <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5 flex items-center justify-between">
+                          <span>Legs · {routeInfo.legs.length}</span>
+                          {wasOptimized && <span className="text-amber-300">Order optimized</span>}
+                        </div>
+                        {routeInfo.legs.map((leg, i) => (
+                          <div key={i} className="px-4 py-2 border-b border-white/5 last:border-0 flex items-center justify-between gap-3 text-sm">
+                            <div className="min-w-0 truncate text-gray-300">
+                              {visited[i]?.query} → {visited[i + 1]?.query}
+                            </div>
+                            <div className="text-xs text-gray-500 flex-shrink-0">
+                              {formatDistance(leg.distance)} · {formatDuration(leg.duration)}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                      <div className="text-xl font-semibold text-white">
-                        {formatDuration(routeInfo.duration)}
+                    )}
+
+                    {/* A* vs ALT Benchmark */}
+                    <div className="mt-4 rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+                      <button
+                        type="button"
+                        onClick={runBenchmark}
+                        disabled={benchmarkProgress !== null}
+                        className="w-full px-4 py-2.5 text-xs font-medium text-gray-400 hover:text-white disabled:opacity-50 transition-colors flex items-center justify-center gap-1.5"
+                      >
+                        <Gauge className="w-3.5 h-3.5" />
+                        {benchmarkProgress ? formatProgress(benchmarkProgress) : 'Benchmark A* vs ALT on the local graph'}
+                      </button>
+                      {benchmark && (
+                        <div className="border-t border-white/5 px-4 py-2.5 text-xs">
+                          <div className="text-gray-500 mb-2">
+                            {benchmark.nodes.toLocaleString()} nodes · {benchmark.landmarks} landmarks in {Math.round(benchmark.preprocessMs)} ms
+                          </div>
+                          <table className="w-full text-gray-300">
+                            <thead>
+                              <tr className="text-gray-500">
+                                <th className="text-left font-normal">Search</th>
+                                <th className="text-right font-normal">Visited</th>
+                                <th className="text-right font-normal">Time</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {benchmark.runs.map(run => (
+                                <tr key={run.search}>
+                                  <td>{LOCAL_SEARCHES.find(s => s.value === run.search)?.label}</td>
+                                  <td className="text-right">{run.visited.toLocaleString()}</td>
+                                  <td className="text-right">{run.ms.toFixed(1)} ms</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <div className={`mt-2 ${sameCost(benchmark) ? 'text-emerald-300' : 'text-amber-300'}`}>
+                            {sameCost(benchmark) ? 'Both found the same optimal cost' : 'Costs differ between the two searches'}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Search space replay */}
+                    <div className="mt-4 rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+                      <div className="px-4 py-2.5 text-xs font-medium text-gray-400 border-b border-white/5 flex items-center justify-between">
+                        <span className="flex items-center gap-1.5">
+                          <ScanSearch className="w-3.5 h-3.5" /> Replay the search on the map
+                        </span>
+                        {traceProgress && <span>{formatProgress(traceProgress)}</span>}
+                      </div>
+                      <div className="p-2 grid grid-cols-2 gap-2">
+                        {TRACE_ALGORITHMS.map(({ value, label }) => (
+                          <button
+                            key={value}
+                            type="button"
+                            onClick={() => runTrace(value)}
+                            disabled={traceProgress !== null}
+                            className="rounded-lg px-3 py-2 text-left bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50 transition-colors"
+                          >
+                            <div className="text-sm text-white">{label}</div>
+                            <div className="text-[11px] text-gray-500">
+                              {traceCounts[value] !== undefined ? `${traceCounts[value].toLocaleString()} expanded` : 'Not run yet'}
+                            </div>
+                          </button>
+                        ))}
                       </div>
                     </div>
-                  </div>
-                  
-                  <div className="mt-4 flex items-center justify-center gap-2">
-                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-500/20 text-indigo-300 border border-indigo-500/30">
-                      ⚡ {routeInfo.algorithm}
-                    </span>
-                  </div>
 
-                  <div className="text-center text-sm text-gray-400 flex items-center justify-center gap-2 mt-4">
-                    <MapIcon className="w-4 h-4 opacity-50" />
-                    Interactive map generated with Leaflet
-                  </div>
-                </motion.div>
-              )}
+                    {routeInfo.elevation && routeInfo.elevation.profile.length > 1 && (
+                      <div className="mt-4">
+                        <ElevationChart elevation={routeInfo.elevation} onHover={onElevationHover} />
+                      </div>
+                    )}
+
+                    {routeInfo.steps.length > 0 && (
+                      <div className="mt-4">
+                        <DirectionsList
+                          steps={routeInfo.steps}
+                          activeStep={activeStep}
+                          onStepHover={onStepHover}
+                          onStepSelect={onStepSelect}
+                        />
+                      </div>
+                    )}
+
+                    <div className="text-center text-sm text-gray-400 flex items-center justify-center gap-2 mt-4">
+                      <MapIcon className="w-4 h-4 opacity-50" />
+                      Interactive map generated with Leaflet
+                    </div>
+                  </motion.div>
+                )}
+              </div>
             </div>
           </motion.div>
         )}
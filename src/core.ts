@@ -0,0 +1,46 @@
+// ============================================================
+// HEADLESS ENTRY POINT
+// ============================================================
+// The routing core without React or Leaflet: distances, road graphs built from
+// Overpass/OSM data, the local searches and route assembly. All of it also
+// runs in Node 20+. Routing stays on a loaded extract (setOfflineNetwork);
+// Overpass is only queried when none is loaded.
+export { haversineDistance, fastApproxDistance, bearing } from './services/geo';
+export { buildGraph } from './services/graph';
+export type { Edge, GraphData, OsmElement } from './services/graph';
+export { importOsmFile, parseOsmXml, parseOverpassJson, parsePbf, filterRoadElements } from './services/osmImport';
+export type { OfflineNetwork, OfflineNetworkInfo } from './services/osmImport';
+export {
+  benchmarkLocalSearch,
+  computeDijkstraRoute,
+  computeIsochrones,
+  computeLocalMatrix,
+  findNearestRoad,
+  setOfflineNetwork,
+  traceLocalSearch,
+} from './services/dijkstra';
+export type { BenchmarkResult, SearchTrace, TraceAlgorithm } from './services/dijkstra';
+export { DEFAULT_ROUTE_OPTIONS, MAX_ROUTES, routeLines } from './services/routing';
+export type {
+  Avoidance,
+  Coordinate,
+  CostMatrix,
+  EngineId,
+  LocalSearch,
+  Objective,
+  RouteData,
+  RouteOptions,
+  RouteStep,
+  TaskControl,
+  TaskProgress,
+} from './services/routing';
+export { PROFILES } from './services/profiles';
+export type { ProfileId, TravelProfile } from './services/profiles';
+export { isochronesToGeoJSON } from './services/isochrone';
+export type { IsochroneMetric, IsochroneResult } from './services/isochrone';
+export { MAX_MATRIX_LOCATIONS, matrixToCsv, matrixToJson, parseCsv, parseLocationsCsv } from './services/matrix';
+export type { LocatedPlace, MatrixLocation, MatrixResult } from './services/matrix';
+export { ROUTE_FILE_TYPES, exportRoute } from './services/routeFiles';
+export type { RouteFileFormat } from './services/routeFiles';
+export { setLogger } from './services/log';
+export type { Logger } from './services/log';
@@ -0,0 +1,125 @@
+import type { Avoidance, EngineId, Objective } from './routing';
+import type { ProfileId } from './profiles';
+import type { RouteStop } from './routeFiles';
+
+/**
+ * Everything needed to recompute a route, as carried in the page URL:
+ *
+ *   ?p=52.52,13.405,Alexanderplatz&p=52.5163,13.3777,Brandenburger+Tor
+ *    &e=local&m=bike&o=shortest&a=motorway,toll&v=52.51,13.39,14
+ *
+ * `p` repeats once per stop in visiting order, start first and destination
+ * last; its label is optional and may itself contain commas.
+ */
+export interface RouteLink {
+  stops: RouteStop[];
+  engine?: EngineId;
+  profile?: ProfileId;
+  objective?: Objective;
+  avoid?: Avoidance[];
+}
+
+export interface Viewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+const ENGINES: EngineId[] = ['osrm', 'local'];
+const PROFILE_IDS: ProfileId[] = ['car', 'bike', 'foot'];
+const OBJECTIVES: Objective[] = ['fastest', 'shortest'];
+const AVOIDANCES: Avoidance[] = ['motorway', 'toll', 'ferry', 'unpaved'];
+const ROUTE_PARAMS = ['p', 'e', 'm', 'o', 'a'];
+
+// ~10 cm, plenty for a shared link
+const coord = (value: number) => String(+value.toFixed(6));
+
+const oneOf = <T extends string>(values: T[], value: string | null): T | undefined =>
+  values.includes(value as T) ? (value as T) : undefined;
+
+// Number('') is 0, so blank parts must be turned away before converting
+const toNumber = (part: string | undefined) => (part?.trim() ? Number(part) : NaN);
+
+function parseStop(value: string): RouteStop | null {
+  const [lat, lng, ...label] = value.split(',');
+  const point = { lat: toNumber(lat), lng: toNumber(lng) };
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng) || Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) return null;
+  return { ...point, name: label.join(',').trim() };
+}
+
+// ============================================================
+// ENCODE / DECODE
+// ============================================================
+/**
+ * Reads a route out of query parameters. Anything malformed is dropped with a
+ * warning rather than failing the whole link; fewer than two usable stops
+ * leaves `stops` empty.
+ */
+export function decodeRouteLink(search: string): RouteLink {
+  const params = new URLSearchParams(search);
+  const link: RouteLink = { stops: [] };
+
+  const stops = params.getAll('p').map(parseStop);
+  if (stops.some(s => s === null)) console.warn('Ignoring malformed stops in the link');
+  const valid = stops.filter((s): s is RouteStop => s !== null);
+  if (valid.length >= 2) link.stops = valid;
+
+  link.engine = oneOf(ENGINES, params.get('e'));
+  link.profile = oneOf(PROFILE_IDS, params.get('m'));
+  link.objective = oneOf(OBJECTIVES, params.get('o'));
+  if (params.has('a')) link.avoid = params.get('a')!.split(',').filter((a): a is Avoidance => AVOIDANCES.includes(a as Avoidance));
+  return link;
+}
+
+export function decodeViewport(search: string): Viewport | null {
+  const [lat, lng, zoom] = (new URLSearchParams(search).get('v') ?? '').split(',').map(toNumber);
+  if (![lat, lng, zoom].every(Number.isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 22) return null;
+  return { lat, lng, zoom };
+}
+
+// Writes the route into `params`, replacing any earlier route but keeping unrelated params
+function writeRoute(params: URLSearchParams, { stops, engine, profile, objective, avoid }: RouteLink) {
+  for (const key of ROUTE_PARAMS) params.delete(key);
+  for (const s of stops) params.append('p', [coord(s.lat), coord(s.lng), s.name].filter(Boolean).join(','));
+  if (engine) params.set('e', engine);
+  if (profile) params.set('m', profile);
+  if (objective) params.set('o', objective);
+  if (avoid?.length) params.set('a', avoid.join(','));
+}
+
+// Just the route part, in a fixed order, for telling whether the route changed
+const routeParams = (params: URLSearchParams) =>
+  ROUTE_PARAMS.flatMap(key => params.getAll(key).map(value => `${key}=${value}`)).join('&');
+
+// ============================================================
+// BROWSER HISTORY
+// ============================================================
+const urlWith = (params: URLSearchParams) => {
+  // Commas are legal in a query string and keep the coordinates readable
+  const query = params.toString().replace(/%2C/gi, ',');
+  return `${location.pathname}${query ? `?${query}` : ''}${location.hash}`;
+};
+
+export const readRouteLink = () => decodeRouteLink(location.search);
+export const readViewport = () => decodeViewport(location.search);
+
+/**
+ * Records a route in the URL. A new history entry is only pushed when the
+ * route actually changed, so re-running the same search does not pile up
+ * back-button stops.
+ */
+export function saveRouteLink(link: RouteLink, mode: 'push' | 'replace') {
+  const params = new URLSearchParams(location.search);
+  const before = routeParams(params);
+  writeRoute(params, link);
+  if (routeParams(params) === before) return;
+  if (mode === 'push') history.pushState(null, '', urlWith(params));
+  else history.replaceState(null, '', urlWith(params));
+}
+
+// Panning and zooming only ever rewrite the current entry
+export function saveViewport({ lat, lng, zoom }: Viewport) {
+  const params = new URLSearchParams(location.search);
+  params.set('v', [coord(lat), coord(lng), zoom].join(','));
+  history.replaceState(history.state, '', urlWith(params));
+}
@@ -1,28 +1,21 @@
-import type { Coordinate } from './routing';
+import { DEFAULT_ROUTE_OPTIONS, MAX_ROUTES, routeLines } from './routing';
+import type { Avoidance, AvoidanceReport, Coordinate, CostMatrix, LocalSearch, Objective, RouteData, RouteOptions, RouteLeg, RouteStep, TaskControl } from './routing';
+import { PROFILES } from './profiles';
+import type { ProfileId, TravelProfile } from './profiles';
+import { bearing, DEG_TO_RAD, fastApproxDistance } from './geo';
+import { buildGraph, isTurnForbidden } from './graph';
+import type { Edge, GraphData, OsmElement } from './graph';
+import { loadTiles, tileKey, tilesForBounds } from './tileCache';
+import { attachPoints, isVirtualNode, nearestRoad, OverlayMap, tripHeadings } from './snapping';
+import type { AttachedPoints, NearestRoad } from './snapping';
+import type { OfflineNetwork } from './osmImport';
+import { ZoneTester } from './zones';
+import { contourIsochrones } from './isochrone';
+import { elevationAt, hasElevation } from './elevation';
+import { log } from './log';
+import type { IsochroneMetric, IsochroneResult, ReachSample } from './isochrone';
 
-// ============================================================
-// HAVERSINE DISTANCE (meters)
-// ============================================================
-const DEG_TO_RAD = Math.PI / 180;
-
-export function haversineDistance(c1: Coordinate, c2: Coordinate): number {
-  const R = 6371e3;
-  const dLat = (c2.lat - c1.lat) * DEG_TO_RAD;
-  const dLon = (c2.lng - c1.lng) * DEG_TO_RAD;
-  const a =
-    Math.sin(dLat * 0.5) * Math.sin(dLat * 0.5) +
-    Math.cos(c1.lat * DEG_TO_RAD) * Math.cos(c2.lat * DEG_TO_RAD) *
-    Math.sin(dLon * 0.5) * Math.sin(dLon * 0.5);
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
-// Fast approximation for heuristic (no trig, ~0.5% error at city scale)
-function fastApproxDistance(c1: Coordinate, c2: Coordinate): number {
-  const latMid = (c1.lat + c2.lat) * 0.5 * DEG_TO_RAD;
-  const dx = (c2.lng - c1.lng) * DEG_TO_RAD * Math.cos(latMid) * 6371e3;
-  const dy = (c2.lat - c1.lat) * DEG_TO_RAD * 6371e3;
-  return Math.sqrt(dx * dx + dy * dy);
-}
+export { haversineDistance } from './geo';
 
 // ============================================================
 // BINARY MIN-HEAP (O(log n) insert/extract)
@@ -37,6 +30,10 @@ class BinaryMinHeap {
     this._bubbleUp(this.heap.length - 1);
   }
 
+  peek(): { id: number; f: number } | undefined {
+    return this.heap[0];
+  }
+
   pop(): { id: number; f: number } | undefined {
     if (this.heap.length === 0) return undefined;
     const top = this.heap[0];
@@ -73,155 +70,1326 @@ class BinaryMinHeap {
 }
 
 // ============================================================
-// OVERPASS NETWORK CACHE
+// OFFLINE NETWORK (imported file replaces Overpass until unloaded)
 // ============================================================
-interface GraphData {
-  nodes: Map<number, Coordinate>;
-  graph: Map<number, { to: number; weight: number }[]>;
+let offlineNetwork: OfflineNetwork | null = null;
+const offlineGraphs = new Map<string, GraphData>(); // per profile
+
+export function setOfflineNetwork(network: OfflineNetwork | null) {
+  offlineNetwork = network;
+  offlineGraphs.clear();
 }
 
+function offlineRoadNetwork(network: OfflineNetwork, points: Coordinate[], profile: TravelProfile, control: TaskControl): GraphData {
+  const { minLat, maxLat, minLon, maxLon } = network.bounds;
+  if (points.some(p => p.lat < minLat || p.lat > maxLat || p.lng < minLon || p.lng > maxLon)) {
+    throw new Error(`Waypoints lie outside the loaded extract (${network.name})`);
+  }
+
+  let graph = offlineGraphs.get(profile.id);
+  if (!graph) {
+    graph = buildGraph(network.elements, profile, `imported extract ${network.name}`, control.onProgress);
+    offlineGraphs.set(profile.id, graph);
+    log.info(`Road graph built from ${network.name} — ${graph.graph.size} nodes`);
+  }
+  return graph;
+}
+
+// ============================================================
+// ROAD NETWORK (assembled from cached tiles)
+// ============================================================
+const MAX_CACHED_GRAPHS = 8;
 const networkCache = new Map<string, GraphData>();
 
-function bboxKey(minLat: number, minLon: number, maxLat: number, maxLon: number) {
-  return `${minLat.toFixed(4)},${minLon.toFixed(4)},${maxLat.toFixed(4)},${maxLon.toFixed(4)}`;
+// Overpass returns boundary-crossing ways and their nodes in every tile they touch
+function mergeTiles(tiles: OsmElement[][]): OsmElement[] {
+  const seen = new Set<string>();
+  const merged: OsmElement[] = [];
+  for (const elements of tiles) {
+    for (const el of elements) {
+      const key = `${el.type}/${el.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(el);
+    }
+  }
+  return merged;
 }
 
-async function fetchRoadNetwork(start: Coordinate, end: Coordinate): Promise<GraphData> {
-  const pad = 0.015; // ~1.5km padding — tight bbox = fast query
-  const minLat = Math.min(start.lat, end.lat) - pad;
-  const maxLat = Math.max(start.lat, end.lat) + pad;
-  const minLon = Math.min(start.lng, end.lng) - pad;
-  const maxLon = Math.max(start.lng, end.lng) + pad;
+async function fetchRoadNetwork(points: Coordinate[], profile: TravelProfile, control: TaskControl): Promise<GraphData> {
+  if (offlineNetwork) return offlineRoadNetwork(offlineNetwork, points, profile, control);
+
+  const pad = 0.015; // ~1.5km padding around the waypoints
+  const tiles = tilesForBounds({
+    minLat: Math.min(...points.map(p => p.lat)) - pad,
+    maxLat: Math.max(...points.map(p => p.lat)) + pad,
+    minLon: Math.min(...points.map(p => p.lng)) - pad,
+    maxLon: Math.max(...points.map(p => p.lng)) + pad,
+  });
 
-  const key = bboxKey(minLat, minLon, maxLat, maxLon);
+  const key = `${profile.id}:${tiles.map(tileKey).sort().join(',')}`;
   if (networkCache.has(key)) {
-    console.log('Road network cache HIT');
+    log.info('Road network cache HIT');
     return networkCache.get(key)!;
   }
 
-  const bbox = `${minLat},${minLon},${maxLat},${maxLon}`;
+  const elements = mergeTiles(await loadTiles(tiles, control));
+  control.signal?.throwIfAborted();
+  const result = buildGraph(elements, profile, 'Overpass road graph', control.onProgress);
+  log.info(`Road graph built from ${tiles.length} tiles — ${elements.length} elements, ${result.graph.size} nodes`);
 
-  // Leaner query: only major drivable roads, compact output
-  const query = `[out:json][timeout:10];way["highway"~"^(motorway|trunk|primary|secondary|tertiary|residential)$"](${bbox});out body qt;>;out skel qt;`;
+  // Keep only the most recent graphs; tiles themselves stay in IndexedDB
+  if (networkCache.size >= MAX_CACHED_GRAPHS) networkCache.delete(networkCache.keys().next().value!);
+  networkCache.set(key, result);
+  return result;
+}
 
-  console.log('Fetching road network from Overpass...');
-  const t0 = performance.now();
-  const res = await fetch(`https://overpass-api.de/api/interpreter?data=${encodeURIComponent(query)}`);
-  if (!res.ok) throw new Error('Overpass API failed');
-  const data = await res.json();
-  console.log(`Overpass responded in ${((performance.now() - t0) / 1000).toFixed(1)}s — ${data.elements.length} elements`);
-
-  const nodes = new Map<number, Coordinate>();
-  const graph = new Map<number, { to: number; weight: number }[]>();
-
-  // Parse all elements in a single pass
-  const ways: { nodes: number[]; oneway: boolean }[] = [];
-  for (const el of data.elements) {
-    if (el.type === 'node') {
-      nodes.set(el.id, { lat: el.lat, lng: el.lon });
-    } else if (el.type === 'way') {
-      ways.push({ nodes: el.nodes, oneway: el.tags?.oneway === 'yes' });
-    }
-  }
-
-  // Build adjacency list
-  for (const way of ways) {
-    for (let i = 0; i < way.nodes.length - 1; i++) {
-      const a = way.nodes[i], b = way.nodes[i + 1];
-      const ca = nodes.get(a), cb = nodes.get(b);
-      if (!ca || !cb) continue;
-      const d = haversineDistance(ca, cb);
-      if (!graph.has(a)) graph.set(a, []);
-      graph.get(a)!.push({ to: b, weight: d });
-      if (!way.oneway) {
-        if (!graph.has(b)) graph.set(b, []);
-        graph.get(b)!.push({ to: a, weight: d });
+// ============================================================
+// STEP GENERATION (way names + bearing changes)
+// ============================================================
+const TURN_THRESHOLD_DEG = 40; // same-name bends sharper than this become a step
+
+// Signed turn angle in (-180, 180], positive = right
+function turnAngle(inBearing: number, outBearing: number): number {
+  const d = (outBearing - inBearing + 540) % 360 - 180;
+  return d === -180 ? 180 : d;
+}
+
+// Same modifier vocabulary as OSRM maneuvers
+function turnModifier(angle: number): string {
+  const a = Math.abs(angle);
+  if (a < 20) return 'straight';
+  if (a > 170) return 'uturn';
+  const side = angle > 0 ? 'right' : 'left';
+  if (a < 60) return `slight ${side}`;
+  if (a < 135) return side;
+  return `sharp ${side}`;
+}
+
+function instruction(type: string, modifier: string | undefined, name: string): string {
+  const road = name || 'unnamed road';
+  return modifier ? `${type} ${modifier} on ${road}` : `${type} on ${road}`;
+}
+
+function makeStep(type: string, modifier: string | undefined, name: string, at: Coordinate): RouteStep {
+  return {
+    instruction: instruction(type, modifier, name),
+    distance: 0,
+    duration: 0,
+    maneuver: { type, modifier, location: [at.lat, at.lng] },
+    geometry: [[at.lat, at.lng]]
+  };
+}
+
+/**
+ * Collapses a node path into OSRM-style steps: a new step starts whenever the
+ * way name changes or the road bends sharper than TURN_THRESHOLD_DEG.
+ * Zero-length edges (between nodes at the same spot) have no bearing and are
+ * skipped rather than turned into empty steps.
+ */
+function buildSteps(path: number[], edges: Edge[], { nodes, ways }: GraphData): RouteStep[] {
+  const moves = edges
+    .map((edge, i) => ({ edge, a: nodes.get(path[i])!, b: nodes.get(path[i + 1])! }))
+    .filter(({ edge }) => edge.length > 0);
+  if (moves.length === 0) return [];
+
+  let currentName = ways[moves[0].edge.way].name;
+  const steps: RouteStep[] = [];
+  let current = makeStep('depart', undefined, currentName, moves[0].a);
+
+  for (let i = 0; i < moves.length; i++) {
+    const { edge, a, b } = moves[i];
+
+    if (i > 0) {
+      const name = ways[edge.way].name;
+      const angle = turnAngle(bearing(moves[i - 1].a, a), bearing(a, b));
+      if (name !== currentName || Math.abs(angle) > TURN_THRESHOLD_DEG) {
+        steps.push(current);
+        const modifier = turnModifier(angle);
+        current = modifier === 'straight'
+          ? makeStep('continue', undefined, name, a)
+          : makeStep('turn', modifier, name, a);
+        currentName = name;
       }
     }
+
+    current.distance += edge.length;
+    current.duration += edge.time;
+    current.geometry.push([b.lat, b.lng]);
   }
 
-  const result = { nodes, graph };
-  networkCache.set(key, result);
-  return result;
+  steps.push(current);
+  steps.push(makeStep('arrive', undefined, currentName, moves[moves.length - 1].b));
+  return steps;
+}
+
+// ============================================================
+// COOPERATIVE CANCELLATION
+// ============================================================
+const YIELD_EVERY_MS = 50;
+
+/**
+ * Searches are synchronous loops, so on their own they would never see a
+ * cancel message. Every YIELD_EVERY_MS they pause for one macrotask, report
+ * how many states they have settled, and bail out if the task was aborted.
+ */
+class Checkpoint {
+  private control: TaskControl;
+  private last = performance.now();
+  private calls = 0;
+  visited = 0; // settled states across every search of the task
+
+  constructor(control: TaskControl) {
+    this.control = control;
+  }
+
+  // Cheap enough to call on every heap pop
+  due(): boolean {
+    this.visited++;
+    return (++this.calls & 1023) === 0 && performance.now() - this.last > YIELD_EVERY_MS;
+  }
+
+  async pause(): Promise<void> {
+    this.control.onProgress?.({ stage: 'search', done: this.visited });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    this.control.signal?.throwIfAborted();
+    this.last = performance.now();
+  }
+}
+
+// ============================================================
+// SEARCH TRACE (expansion order, for visualizing a search)
+// ============================================================
+const MAX_TRACE_POINTS = 200000; // beyond this the replay gets too slow to draw
+
+export type TraceAlgorithm = 'astar' | 'dijkstra';
+
+/**
+ * Every node a search touched, with the expansion step at which it joined the
+ * frontier and the one at which it was settled. At step k the closed set is
+ * everything with settled <= k, the frontier everything reached but not yet
+ * settled. Legs are recorded one after another, so a node can appear once per leg.
+ */
+export interface SearchTrace {
+  algorithm: TraceAlgorithm;
+  points: [number, number][]; // [lat, lng]
+  reached: number[];
+  settled: number[]; // -1 if still on the frontier when the search ended
+  steps: number; // expansions in total
+  path: [number, number][]; // the route found, empty if there is none
+  truncated: boolean; // stopped recording at MAX_TRACE_POINTS
+}
+
+class SearchRecorder {
+  private index = new Map<number, number>(); // node id → position in points, this leg
+  points: [number, number][] = [];
+  reached: number[] = [];
+  settled: number[] = [];
+  steps = 0;
+  truncated = false;
+
+  nextLeg() {
+    this.index.clear();
+  }
+
+  reach(node: number, { lat, lng }: Coordinate) {
+    if (this.index.has(node)) return;
+    if (this.points.length >= MAX_TRACE_POINTS) {
+      this.truncated = true;
+      return;
+    }
+    this.index.set(node, this.points.length);
+    this.points.push([lat, lng]);
+    this.reached.push(this.steps);
+    this.settled.push(-1);
+  }
+
+  // Repeat pops of a node (other turn states, stale heap entries) are not new expansions
+  settle(node: number) {
+    const i = this.index.get(node);
+    if (i === undefined || this.settled[i] !== -1) return;
+    this.settled[i] = this.steps++;
+  }
 }
 
 // ============================================================
 // A* SEARCH (Dijkstra + heuristic = much faster)
 // ============================================================
-export async function computeDijkstraRoute(start: Coordinate, end: Coordinate): Promise<[number, number][] | null> {
-  const { nodes, graph } = await fetchRoadNetwork(start, end);
+interface PathResult {
+  path: number[];
+  edges: Edge[]; // edges[i] leads from path[i] to path[i + 1]
+  cost: number; // sum of edge costs for the objective; only the climb penalty is counted in
+}
+
+const edgeCost = (edge: Edge, objective: Objective) =>
+  objective === 'fastest' ? edge.time : edge.length;
+
+// Straight-line lower bound on the remaining cost: distance, or distance
+// covered at the graph's top speed
+function heuristic(network: GraphData, from: Coordinate, to: Coordinate, objective: Objective): number {
+  const d = fastApproxDistance(from, to);
+  return objective === 'fastest' ? d / network.maxSpeed : d;
+}
+
+// Multiplier ≥ 1 applied to an edge's weight; keeps the heuristic admissible
+type EdgePenalty = (from: number, edge: Edge) => number;
+
+// ============================================================
+// RESTRICTION-AWARE SEARCH STATES
+// ============================================================
+interface SearchState {
+  node: number;
+  inWay: number; // way we arrived on, -1 when it cannot matter
+  prevWay: number; // way before inWay, -1 when it cannot matter
+}
 
-  // Find nearest graph nodes to start/end
-  let startNode = -1, endNode = -1;
-  let minSD = Infinity, minED = Infinity;
+/**
+ * Without turn restrictions a search state is simply a node id. Where a
+ * restriction could apply, the state also remembers the incoming way (via-node
+ * rules) and the way before it (via-way rules); those states get negative ids
+ * so plain node ids keep working as keys everywhere else.
+ */
+class StateSpace {
+  private network: GraphData;
+  private states = new Map<number, SearchState>();
+  private ids = new Map<string, number>();
 
-  for (const [id, coord] of nodes) {
-    if (!graph.has(id)) continue;
-    const ds = fastApproxDistance(start, coord);
-    const de = fastApproxDistance(end, coord);
-    if (ds < minSD) { minSD = ds; startNode = id; }
-    if (de < minED) { minED = de; endNode = id; }
+  constructor(network: GraphData) {
+    this.network = network;
   }
 
-  if (startNode === -1 || endNode === -1) {
-    console.error('No nearby road nodes');
-    return null;
+  node(id: number): number {
+    return id >= 0 ? id : this.states.get(id)!.node;
+  }
+
+  private state(id: number): SearchState {
+    return id >= 0 ? { node: id, inWay: -1, prevWay: -1 } : this.states.get(id)!;
+  }
+
+  // Collapses arrival history that no restriction can ever look at
+  private idFor(node: number, inWay: number, prevWay: number): number {
+    const { byViaNode, byViaWay, viaWayFroms } = this.network.restrictions;
+    if (!byViaNode.has(node) && !byViaWay.has(inWay) && !viaWayFroms.has(inWay)) return node;
+
+    const prev = byViaWay.has(inWay) && viaWayFroms.has(prevWay) ? prevWay : -1;
+    const key = `${node}:${inWay}:${prev}`;
+    let id = this.ids.get(key);
+    if (id === undefined) {
+      id = -(this.ids.size + 1);
+      this.ids.set(key, id);
+      this.states.set(id, { node, inWay, prevWay: prev });
+    }
+    return id;
   }
 
+  // Every legal move out of a state
+  successors(id: number): { edge: Edge; next: number }[] {
+    const s = this.state(id);
+    const moves: { edge: Edge; next: number }[] = [];
+    for (const edge of this.network.graph.get(s.node) ?? []) {
+      if (s.inWay !== -1 && isTurnForbidden(this.network.restrictions, s.node, s.prevWay, s.inWay, edge.way)) continue;
+      const prevWay = edge.way === s.inWay ? s.prevWay : s.inWay;
+      moves.push({ edge, next: this.idFor(edge.to, edge.way, prevWay) });
+    }
+    return moves;
+  }
+}
+
+interface SearchOptions {
+  guided?: boolean; // false = plain Dijkstra, the heuristic is left out
+  recorder?: SearchRecorder;
+}
+
+async function aStar(
+  network: GraphData,
+  startNode: number,
+  endNode: number,
+  objective: Objective,
+  checkpoint: Checkpoint,
+  penalty?: EdgePenalty,
+  { guided = true, recorder }: SearchOptions = {}
+): Promise<PathResult | null> {
+  const { nodes, graph } = network;
   const endCoord = nodes.get(endNode)!;
+  const space = new StateSpace(network);
+  const estimate = (node: number) => (guided ? heuristic(network, nodes.get(node)!, endCoord, objective) : 0);
 
   // A* with binary heap
-  console.log(`Running A* (Dijkstra + heuristic) on ${graph.size} nodes...`);
+  log.info(`Running ${guided ? 'A* (Dijkstra + heuristic)' : 'Dijkstra'} on ${graph.size} nodes...`);
   const t0 = performance.now();
 
   const gScore = new Map<number, number>();
   const prev = new Map<number, number>();
+  const prevEdge = new Map<number, Edge>();
   const pq = new BinaryMinHeap();
   let visited = 0;
+  let goal = -1;
 
   gScore.set(startNode, 0);
-  pq.push(startNode, fastApproxDistance(nodes.get(startNode)!, endCoord));
+  pq.push(startNode, estimate(startNode));
+  recorder?.reach(startNode, nodes.get(startNode)!);
 
   while (pq.size > 0) {
     const curr = pq.pop()!;
     visited++;
+    if (checkpoint.due()) await checkpoint.pause();
 
-    if (curr.id === endNode) {
-      console.log(`Path found! Visited ${visited} nodes in ${((performance.now() - t0)).toFixed(0)}ms`);
+    const currNode = space.node(curr.id);
+    recorder?.settle(currNode);
+    if (currNode === endNode) {
+      goal = curr.id;
+      log.info(`Path found! Visited ${visited} nodes in ${((performance.now() - t0)).toFixed(0)}ms`);
       break;
     }
 
     const currG = gScore.get(curr.id) ?? Infinity;
-    const neighbors = graph.get(curr.id);
-    if (!neighbors) continue;
-
-    for (const edge of neighbors) {
-      const tentG = currG + edge.weight;
-      if (tentG < (gScore.get(edge.to) ?? Infinity)) {
-        gScore.set(edge.to, tentG);
-        prev.set(edge.to, curr.id);
-        const h = fastApproxDistance(nodes.get(edge.to)!, endCoord);
-        pq.push(edge.to, tentG + h);
+
+    for (const { edge, next } of space.successors(curr.id)) {
+      const tentG = currG + edgeCost(edge, objective) * (penalty ? penalty(currNode, edge) : 1);
+      if (tentG < (gScore.get(next) ?? Infinity)) {
+        gScore.set(next, tentG);
+        prev.set(next, curr.id);
+        prevEdge.set(next, edge);
+        pq.push(next, tentG + estimate(edge.to));
+        recorder?.reach(edge.to, nodes.get(edge.to)!);
       }
     }
   }
 
   // Reconstruct path
-  if (!prev.has(endNode) && startNode !== endNode) {
-    console.error('No path found');
+  if (goal === -1) {
+    log.error('No path found');
     return null;
   }
 
   const path: number[] = [];
-  let c: number | undefined = endNode;
+  const edges: Edge[] = [];
+  let c: number | undefined = goal;
   while (c !== undefined && c !== startNode) {
-    path.unshift(c);
+    path.unshift(space.node(c));
+    edges.unshift(prevEdge.get(c)!);
     c = prev.get(c);
   }
   path.unshift(startNode);
 
-  return path.map(id => {
-    const n = nodes.get(id)!;
-    return [n.lat, n.lng] as [number, number];
+  return { path, edges, cost: edges.reduce((sum, e) => sum + edgeCost(e, objective), 0) };
+}
+
+// ============================================================
+// LANDMARKS (ALT preprocessing)
+// ============================================================
+const LANDMARK_COUNT = 8;
+
+interface ReverseEdge {
+  from: number;
+  edge: Edge;
+}
+
+interface LandmarkTable {
+  index: Map<number, number>; // node id → slot in the distance arrays
+  fromLandmark: Float64Array[]; // [l][slot]: cost from landmark l to the node
+  toLandmark: Float64Array[]; // [l][slot]: cost from the node to landmark l
+  buildMs: number;
+}
+
+const reverseGraphs = new WeakMap<GraphData, Map<number, ReverseEdge[]>>();
+
+function reverseGraph(network: GraphData): Map<number, ReverseEdge[]> {
+  let reverse = reverseGraphs.get(network);
+  if (!reverse) {
+    reverse = new Map();
+    for (const [from, edges] of network.graph) {
+      for (const edge of edges) {
+        const list = reverse.get(edge.to);
+        if (list) list.push({ from, edge });
+        else reverse.set(edge.to, [{ from, edge }]);
+      }
+    }
+    reverseGraphs.set(network, reverse);
+  }
+  return reverse;
+}
+
+// Planar selection: the node farthest from the centre in each of
+// LANDMARK_COUNT equal sectors, so most queries have a landmark "behind" them
+function pickLandmarks({ nodes, graph }: GraphData): number[] {
+  let lat = 0, lng = 0;
+  for (const id of graph.keys()) {
+    lat += nodes.get(id)!.lat;
+    lng += nodes.get(id)!.lng;
+  }
+  const center = { lat: lat / graph.size, lng: lng / graph.size };
+
+  const best = Array.from({ length: LANDMARK_COUNT }, () => ({ id: -1, d: -1 }));
+  for (const id of graph.keys()) {
+    const c = nodes.get(id)!;
+    const sector = Math.min(LANDMARK_COUNT - 1, Math.floor(bearing(center, c) / (360 / LANDMARK_COUNT)));
+    const d = fastApproxDistance(center, c);
+    if (d > best[sector].d) best[sector] = { id, d };
+  }
+  return best.filter(b => b.id !== -1).map(b => b.id);
+}
+
+// Full one-to-all Dijkstra, over outgoing or incoming edges
+async function landmarkDistances(
+  index: Map<number, number>,
+  source: number,
+  forEachNeighbour: (id: number, visit: (next: number, cost: number) => void) => void,
+  checkpoint: Checkpoint
+): Promise<Float64Array> {
+  const dist = new Float64Array(index.size).fill(Infinity);
+  dist[index.get(source)!] = 0;
+  const pq = new BinaryMinHeap();
+  pq.push(source, 0);
+
+  while (pq.size > 0) {
+    const { id, f } = pq.pop()!;
+    if (f > dist[index.get(id)!]) continue; // stale entry
+    if (checkpoint.due()) await checkpoint.pause();
+    forEachNeighbour(id, (next, cost) => {
+      const slot = index.get(next)!;
+      if (f + cost < dist[slot]) {
+        dist[slot] = f + cost;
+        pq.push(next, f + cost);
+      }
+    });
+  }
+  return dist;
+}
+
+async function buildLandmarks(network: GraphData, objective: Objective, control: TaskControl): Promise<LandmarkTable> {
+  const t0 = performance.now();
+  const checkpoint = new Checkpoint({ signal: control.signal }); // progress is per landmark instead
+
+  const index = new Map<number, number>();
+  for (const [from, edges] of network.graph) {
+    if (!index.has(from)) index.set(from, index.size);
+    for (const edge of edges) {
+      if (!index.has(edge.to)) index.set(edge.to, index.size);
+    }
+  }
+
+  const reverse = reverseGraph(network);
+  const landmarks = pickLandmarks(network);
+  const fromLandmark: Float64Array[] = [];
+  const toLandmark: Float64Array[] = [];
+  for (const [i, landmark] of landmarks.entries()) {
+    control.onProgress?.({ stage: 'preprocess', done: i, total: landmarks.length });
+    fromLandmark.push(await landmarkDistances(index, landmark, (id, visit) => {
+      for (const edge of network.graph.get(id) ?? []) visit(edge.to, edgeCost(edge, objective));
+    }, checkpoint));
+    toLandmark.push(await landmarkDistances(index, landmark, (id, visit) => {
+      for (const { from, edge } of reverse.get(id) ?? []) visit(from, edgeCost(edge, objective));
+    }, checkpoint));
+  }
+
+  const buildMs = performance.now() - t0;
+  log.info(`ALT: ${landmarks.length} landmarks over ${index.size} nodes in ${buildMs.toFixed(0)}ms`);
+  return { index, fromLandmark, toLandmark, buildMs };
+}
+
+// Built once per graph and objective, on the first ALT query
+const landmarkTables = new WeakMap<GraphData, Map<Objective, Promise<LandmarkTable>>>();
+
+async function landmarksFor(network: GraphData, objective: Objective, control: TaskControl): Promise<LandmarkTable> {
+  let byObjective = landmarkTables.get(network);
+  if (!byObjective) {
+    byObjective = new Map();
+    landmarkTables.set(network, byObjective);
+  }
+
+  for (;;) {
+    let table = byObjective.get(objective);
+    if (!table) {
+      const build = buildLandmarks(network, objective, control);
+      table = build;
+      byObjective.set(objective, build);
+      build.catch(() => {
+        if (byObjective.get(objective) === build) byObjective.delete(objective);
+      });
+    }
+    try {
+      return await table;
+    } catch (error) {
+      // A superseded search cancelled the shared build: start our own
+      if (control.signal?.aborted || !(error instanceof DOMException && error.name === 'AbortError')) throw error;
+    }
+  }
+}
+
+/**
+ * Triangle-inequality lower bounds over every landmark L:
+ * d(u,v) ≥ d(L,v) − d(L,u) and d(u,v) ≥ d(u,L) − d(v,L).
+ * A query's virtual nodes get their landmark distances by relaxing the few
+ * edges that touch them, which is exact since every path passes through those.
+ */
+class LandmarkBounds {
+  private table: LandmarkTable;
+  private virtualFrom = new Map<number, Float64Array>();
+  private virtualTo = new Map<number, Float64Array>();
+
+  constructor(table: LandmarkTable, virtualEdges: AttachedPoints['virtualEdges'], objective: Objective) {
+    this.table = table;
+    const k = table.fromLandmark.length;
+    for (const { from, edge } of virtualEdges) {
+      for (const id of [from, edge.to]) {
+        if (!isVirtualNode(id) || this.virtualFrom.has(id)) continue;
+        this.virtualFrom.set(id, new Float64Array(k).fill(Infinity));
+        this.virtualTo.set(id, new Float64Array(k).fill(Infinity));
+      }
+    }
+
+    // Bellman–Ford over a handful of edges; chains are at most a few nodes long
+    for (let pass = 0; pass <= this.virtualFrom.size; pass++) {
+      for (const { from, edge } of virtualEdges) {
+        const cost = edgeCost(edge, objective);
+        for (let l = 0; l < k; l++) {
+          const into = this.virtualFrom.get(edge.to);
+          if (into) into[l] = Math.min(into[l], this.from(l, from) + cost);
+          const out = this.virtualTo.get(from);
+          if (out) out[l] = Math.min(out[l], cost + this.to(l, edge.to));
+        }
+      }
+    }
+  }
+
+  private from(l: number, id: number): number {
+    if (isVirtualNode(id)) return this.virtualFrom.get(id)?.[l] ?? Infinity;
+    const slot = this.table.index.get(id);
+    return slot === undefined ? Infinity : this.table.fromLandmark[l][slot];
+  }
+
+  private to(l: number, id: number): number {
+    if (isVirtualNode(id)) return this.virtualTo.get(id)?.[l] ?? Infinity;
+    const slot = this.table.index.get(id);
+    return slot === undefined ? Infinity : this.table.toLandmark[l][slot];
+  }
+
+  lowerBound(u: number, v: number): number {
+    let best = 0;
+    for (let l = 0; l < this.table.fromLandmark.length; l++) {
+      const a = this.from(l, v) - this.from(l, u);
+      const b = this.to(l, u) - this.to(l, v);
+      // Unreachable landmarks give ±Infinity or NaN — just skip them
+      if (Number.isFinite(a) && a > best) best = a;
+      if (Number.isFinite(b) && b > best) best = b;
+    }
+    return best;
+  }
+}
+
+// ============================================================
+// BIDIRECTIONAL ALT SEARCH
+// ============================================================
+/**
+ * Forward search from start and reverse search from end, each guided by the
+ * average of the two landmark potentials so that both stay consistent and
+ * the search can stop once the two frontiers' keys sum past the best
+ * meeting cost. Runs on plain nodes: turn restrictions are checked on the
+ * result afterwards.
+ */
+async function bidirectionalAlt(
+  network: GraphData,
+  reverse: Map<number, ReverseEdge[]>,
+  bounds: LandmarkBounds,
+  start: number,
+  end: number,
+  objective: Objective,
+  checkpoint: Checkpoint,
+  penalty?: EdgePenalty
+): Promise<PathResult | null> {
+  if (start === end) return { path: [start], edges: [], cost: 0 };
+
+  const { nodes } = network;
+  const s = nodes.get(start)!, t = nodes.get(end)!;
+  const potentials = new Map<number, number>();
+  const potential = (v: number) => {
+    let p = potentials.get(v);
+    if (p === undefined) {
+      const c = nodes.get(v)!;
+      const toEnd = Math.max(bounds.lowerBound(v, end), heuristic(network, c, t, objective));
+      const fromStart = Math.max(bounds.lowerBound(start, v), heuristic(network, s, c, objective));
+      p = (toEnd - fromStart) / 2;
+      potentials.set(v, p);
+    }
+    return p;
+  };
+
+  const gF = new Map<number, number>([[start, 0]]);
+  const gR = new Map<number, number>([[end, 0]]);
+  const prevF = new Map<number, ReverseEdge>(); // how the forward search reached a node
+  const nextR = new Map<number, Edge>(); // edge the reverse search leaves a node by
+  const doneF = new Set<number>(), doneR = new Set<number>();
+  const pqF = new BinaryMinHeap(), pqR = new BinaryMinHeap();
+  pqF.push(start, potential(start));
+  pqR.push(end, -potential(end));
+
+  let best = Infinity;
+  let meet: ReverseEdge | null = null; // edge joining the two halves
+  const weight = (from: number, edge: Edge) => edgeCost(edge, objective) * (penalty ? penalty(from, edge) : 1);
+
+  while (pqF.size > 0 && pqR.size > 0) {
+    const topF = pqF.peek()!.f, topR = pqR.peek()!.f;
+    if (topF + topR >= best) break;
+    if (checkpoint.due()) await checkpoint.pause();
+
+    if (topF <= topR) {
+      const u = pqF.pop()!.id;
+      if (doneF.has(u)) continue;
+      doneF.add(u);
+      const gu = gF.get(u)!;
+      for (const edge of network.graph.get(u) ?? []) {
+        const g = gu + weight(u, edge);
+        if (g < (gF.get(edge.to) ?? Infinity)) {
+          gF.set(edge.to, g);
+          prevF.set(edge.to, { from: u, edge });
+          pqF.push(edge.to, g + potential(edge.to));
+        }
+        const rest = gR.get(edge.to);
+        if (rest !== undefined && g + rest < best) {
+          best = g + rest;
+          meet = { from: u, edge };
+        }
+      }
+    } else {
+      const v = pqR.pop()!.id;
+      if (doneR.has(v)) continue;
+      doneR.add(v);
+      const gv = gR.get(v)!;
+      for (const { from, edge } of reverse.get(v) ?? []) {
+        const g = gv + weight(from, edge);
+        if (g < (gR.get(from) ?? Infinity)) {
+          gR.set(from, g);
+          nextR.set(from, edge);
+          pqR.push(from, g - potential(from));
+        }
+        const head = gF.get(from);
+        if (head !== undefined && head + g < best) {
+          best = head + g;
+          meet = { from, edge };
+        }
+      }
+    }
+  }
+
+  if (!meet) return null;
+
+  // Stitch start → meet.from, the meeting edge, then meet.edge.to → end
+  const path = [meet.from];
+  const edges: Edge[] = [];
+  for (let u = meet.from; u !== start;) {
+    const p = prevF.get(u)!;
+    path.unshift(p.from);
+    edges.unshift(p.edge);
+    u = p.from;
+  }
+  edges.push(meet.edge);
+  path.push(meet.edge.to);
+  for (let v = meet.edge.to; v !== end;) {
+    const edge = nextR.get(v)!;
+    edges.push(edge);
+    path.push(edge.to);
+    v = edge.to;
+  }
+
+  return { path, edges, cost: edges.reduce((sum, e) => sum + edgeCost(e, objective), 0) };
+}
+
+// Replays a node path through the turn restrictions, like StateSpace does
+function isLegalPath({ restrictions }: GraphData, { path, edges }: PathResult): boolean {
+  let inWay = -1, prevWay = -1;
+  for (let i = 0; i < edges.length; i++) {
+    const way = edges[i].way;
+    if (inWay !== -1 && isTurnForbidden(restrictions, path[i], prevWay, inWay, way)) return false;
+    if (way !== inWay) {
+      prevWay = inWay;
+      inWay = way;
+    }
+  }
+  return true;
+}
+
+type PathSearch = (start: number, end: number, penalty?: EdgePenalty) => Promise<PathResult | null>;
+
+/**
+ * Point-to-point search for one query. ALT ignores turn restrictions while
+ * searching, which can only make paths shorter: if its path is legal it is
+ * also the restricted optimum, otherwise A* over the restriction states runs.
+ */
+async function pathSearch(
+  base: GraphData,
+  { network, virtualEdges, splitEdges }: AttachedPoints,
+  objective: Objective,
+  search: LocalSearch,
+  control: TaskControl,
+  checkpoint: Checkpoint
+): Promise<PathSearch> {
+  if (search === 'astar') return (start, end, penalty) => aStar(network, start, end, objective, checkpoint, penalty);
+
+  const bounds = new LandmarkBounds(await landmarksFor(base, objective, control), virtualEdges, objective);
+  const reverse = new OverlayMap(reverseGraph(base));
+  for (const { edge } of splitEdges) reverse.set(edge.to, (reverse.get(edge.to) ?? []).filter(r => r.edge !== edge));
+  for (const { from, edge } of virtualEdges) reverse.set(edge.to, [...(reverse.get(edge.to) ?? []), { from, edge }]);
+
+  return async (start, end, penalty) => {
+    const t0 = performance.now();
+    const visited = checkpoint.visited;
+    const result = await bidirectionalAlt(network, reverse, bounds, start, end, objective, checkpoint, penalty);
+    log.info(`Bidirectional ALT visited ${checkpoint.visited - visited} nodes in ${(performance.now() - t0).toFixed(0)}ms`);
+    if (!result || isLegalPath(network, result)) return result;
+
+    log.info('ALT path breaks a turn restriction, re-running restriction-aware A*');
+    return aStar(network, start, end, objective, checkpoint, penalty);
+  };
+}
+
+// ============================================================
+// ALTERNATIVE ROUTES (penalty method)
+// ============================================================
+const ALT_PENALTY = 1.4; // weight multiplier for edges already used by a route
+const ALT_MAX_OVERLAP = 0.7; // share of length an alternative may reuse
+const ALT_MAX_STRETCH = 1.5; // alternatives may cost at most this × the best
+const ALT_MAX_ATTEMPTS = 6;
+
+/**
+ * Key of the OSM segment an edge runs along: way plus node pair, in travel
+ * direction or against it. A virtual piece maps back to the edge it was cut
+ * from, so every piece of a split road counts as that road.
+ */
+type SegmentKey = (from: number, edge: Edge, reverse?: boolean) => string;
+
+const segmentKeys = ({ baseOf }: AttachedPoints): SegmentKey => (from, edge, reverse = false) => {
+  const base = baseOf.get(edge) ?? { from, edge };
+  const [a, b] = reverse ? [base.edge.to, base.from] : [base.from, base.edge.to];
+  return `${base.edge.way}:${a}>${b}`;
+};
+
+// Fraction of a route's length that runs along segments in `used`
+function overlapRatio(result: PathResult, used: Set<string>, segmentKey: SegmentKey): number {
+  let shared = 0, total = 0;
+  for (let i = 0; i < result.edges.length; i++) {
+    const d = result.edges[i].length;
+    total += d;
+    if (used.has(segmentKey(result.path[i], result.edges[i]))) shared += d;
+  }
+  return total > 0 ? shared / total : 1;
+}
+
+/**
+ * Repeatedly penalizes the segments of every route found so far and re-runs
+ * A*. A candidate is kept only if it is meaningfully different (limited
+ * overlap with each accepted route) and not absurdly longer than the best.
+ */
+async function findAlternatives(search: PathSearch, startNode: number, endNode: number, segmentKey: SegmentKey): Promise<PathResult[]> {
+  const best = await search(startNode, endNode);
+  if (!best) return [];
+
+  const accepted: { result: PathResult; segments: Set<string> }[] = [];
+  const penalized = new Map<string, number>();
+  const penalize = (key: string) => penalized.set(key, (penalized.get(key) ?? 1) * ALT_PENALTY);
+
+  const accept = (result: PathResult) => {
+    const segments = new Set(result.edges.map((edge, i) => segmentKey(result.path[i], edge)));
+    accepted.push({ result, segments });
+    // Penalize both directions so the detour does not just use the opposite carriageway
+    result.edges.forEach((edge, i) => {
+      penalize(segmentKey(result.path[i], edge));
+      penalize(segmentKey(result.path[i], edge, true));
+    });
+  };
+  accept(best);
+
+  for (let attempt = 0; attempt < ALT_MAX_ATTEMPTS && accepted.length < MAX_ROUTES; attempt++) {
+    const candidate = await search(startNode, endNode, (from, edge) => penalized.get(segmentKey(from, edge)) ?? 1);
+    if (!candidate) break;
+
+    const distinct = candidate.cost <= best.cost * ALT_MAX_STRETCH &&
+      accepted.every(a => overlapRatio(candidate, a.segments, segmentKey) <= ALT_MAX_OVERLAP);
+    if (distinct) {
+      accept(candidate);
+    } else {
+      // Still push the search away from this corridor on the next attempt
+      candidate.edges.forEach((edge, i) => penalize(segmentKey(candidate.path[i], edge)));
+    }
+  }
+
+  return accepted.map(a => a.result).sort((x, y) => x.cost - y.cost);
+}
+
+// ============================================================
+// AVOIDANCES
+// ============================================================
+const AVOID_PENALTY = 5; // soft fallback: an avoided road weighs this × its normal cost
+
+// Edges of one query's graph that touch an active zone, virtual ones included
+function edgesInZones(base: GraphData, { network, virtualEdges }: AttachedPoints, zones: ZoneTester): Set<Edge> {
+  const inside = new Set<Edge>();
+  if (zones.empty) return inside;
+
+  const { nodes } = network;
+  const test = (from: number, edge: Edge) => {
+    if (zones.hit(nodes.get(from)!, nodes.get(edge.to)!)) inside.add(edge);
+  };
+  for (const [from, edges] of base.graph) {
+    for (const edge of edges) test(from, edge);
+  }
+  for (const { from, edge } of virtualEdges) test(from, edge);
+  return inside;
+}
+
+// Multiplies every edge on an avoided way or inside a zone; Infinity closes them outright
+function avoiding(search: PathSearch, { ways }: GraphData, avoid: Avoidance[], inZones: Set<Edge>, factor: number): PathSearch {
+  if (avoid.length === 0 && inZones.size === 0) return search;
+  const weight: EdgePenalty = (_, edge) => (inZones.has(edge) || ways[edge.way].avoid.some(a => avoid.includes(a)) ? factor : 1);
+  return (start, end, penalty) => search(start, end, penalty ? (from, edge) => weight(from, edge) * penalty(from, edge) : weight);
+}
+
+// ============================================================
+// CLIMBING
+// ============================================================
+const nodeHeights = new WeakMap<GraphData, Map<number, number | null>>();
+
+/**
+ * Adds the profile's climbSeconds for every meter an edge climbs, as a
+ * multiplier on its weight — the same ratio holds for time and for length
+ * at the edge's speed. Penalties only ever add cost, so the A* heuristic and
+ * ALT bounds stay admissible. The climb also counts in the result's cost,
+ * so alternatives are ranked with it. Heights are cached per graph, except
+ * for the query's own virtual nodes.
+ */
+function climbing(search: PathSearch, base: GraphData, { nodes }: GraphData, profile: TravelProfile, objective: Objective): PathSearch {
+  if (!hasElevation()) return search;
+  let heights = nodeHeights.get(base);
+  if (!heights) nodeHeights.set(base, (heights = new Map()));
+  const cache = heights;
+
+  const height = (id: number) => {
+    if (isVirtualNode(id)) return elevationAt(nodes.get(id)!);
+    if (!cache.has(id)) cache.set(id, elevationAt(nodes.get(id)!));
+    return cache.get(id)!;
+  };
+  const weight: EdgePenalty = (from, edge) => {
+    const a = height(from), b = height(edge.to);
+    if (a === null || b === null || b <= a || edge.time === 0) return 1;
+    return 1 + ((b - a) * profile.climbSeconds) / edge.time;
+  };
+  const withClimb = (result: PathResult | null) =>
+    result && { ...result, cost: result.edges.reduce((sum, e, i) => sum + edgeCost(e, objective) * weight(result.path[i], e), 0) };
+  return async (start, end, penalty) =>
+    withClimb(await search(start, end, penalty ? (from, edge) => weight(from, edge) * penalty(from, edge) : weight));
+}
+
+// Zones are filled in from the finished geometry, the same way as for OSRM
+function avoidanceReport({ ways }: GraphData, legResults: PathResult[], avoid: Avoidance[]): AvoidanceReport {
+  const used = new Set(legResults.flatMap(r => r.edges.flatMap(e => ways[e.way].avoid)));
+  return { honored: avoid.filter(a => !used.has(a)), violated: avoid.filter(a => used.has(a)), unsupported: [], zones: [] };
+}
+
+// ============================================================
+// ROUTE ASSEMBLY
+// ============================================================
+function toRouteData(
+  network: GraphData,
+  waypoints: Coordinate[],
+  snapped: Coordinate[],
+  legResults: PathResult[],
+  { objective, search = 'astar', avoid = [], zones = [], climb = false }: RouteOptions
+): RouteData {
+  const { nodes } = network;
+  const geometry: [number, number][] = [];
+  const steps: RouteStep[] = [];
+  const legs: RouteLeg[] = [];
+
+  legResults.forEach((result, i) => {
+    const legSteps = buildSteps(result.path, result.edges, network);
+    legs.push({
+      distance: result.edges.reduce((sum, e) => sum + e.length, 0),
+      duration: result.edges.reduce((sum, e) => sum + e.time, 0)
+    });
+    steps.push(...legSteps);
+
+    // Legs share their joining node — skip it on every leg after the first
+    const legGeometry = result.path.map(id => {
+      const n = nodes.get(id)!;
+      return [n.lat, n.lng] as [number, number];
+    });
+    geometry.push(...(i === 0 ? legGeometry : legGeometry.slice(1)));
   });
+
+  const route: RouteData = {
+    geometry,
+    distance: legs.reduce((sum, l) => sum + l.distance, 0),
+    duration: legs.reduce((sum, l) => sum + l.duration, 0),
+    steps,
+    legs,
+    waypoints: waypoints.map(w => [w.lat, w.lng] as [number, number]),
+    snapped: snapped.map(s => [s.lat, s.lng] as [number, number]),
+    avoidance: avoidanceReport(network, legResults, avoid),
+    algorithm: `${search === 'alt' ? 'Bidirectional ALT' : 'A*'} (${network.source}, ${objective}${climb && hasElevation() ? ', climb-aware' : ''})`
+  };
+  route.avoidance.zones = new ZoneTester(zones).entered(routeLines(route));
+  return route;
+}
+
+async function routeOnGraph(
+  base: GraphData,
+  waypoints: Coordinate[],
+  options: RouteOptions,
+  avoidFactor: number,
+  control: TaskControl,
+  checkpoint: Checkpoint
+): Promise<RouteData[]> {
+  const { objective, profile, search = 'astar', avoid = [], zones = [], climb = false } = options;
+  const attached = attachPoints(base, PROFILES[profile], waypoints, avoid, tripHeadings(waypoints));
+  if (!attached) {
+    log.error('No nearby road for one of the waypoints');
+    return [];
+  }
+  const { network, ids, snapped } = attached;
+  const inZones = edgesInZones(base, attached, new ZoneTester(zones));
+  let find = avoiding(await pathSearch(base, attached, objective, search, control, checkpoint), network, avoid, inZones, avoidFactor);
+  if (climb) find = climbing(find, base, network, PROFILES[profile], objective);
+
+  if (ids.length === 2) {
+    return (await findAlternatives(find, ids[0], ids[1], segmentKeys(attached)))
+      .map(result => toRouteData(network, waypoints, snapped, [result], options));
+  }
+
+  const legResults: PathResult[] = [];
+  for (let i = 0; i < ids.length - 1; i++) {
+    const result = await find(ids[i], ids[i + 1]);
+    if (!result) return [];
+    legResults.push(result);
+  }
+
+  return [toRouteData(network, waypoints, snapped, legResults, options)];
+}
+
+/**
+ * Routes through every waypoint in order, one A* search per leg. Steps are
+ * concatenated across legs, each leg ending in its own "arrive" step like OSRM.
+ * Plain A→B requests also get up to MAX_ROUTES - 1 alternatives.
+ * Avoided roads and edges inside active zones are closed first; only if that
+ * leaves no route are they reopened at AVOID_PENALTY, and the route reports
+ * them as violated.
+ */
+export async function computeDijkstraRoute(
+  waypoints: Coordinate[],
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<RouteData[]> {
+  const base = await fetchRoadNetwork(waypoints, PROFILES[options.profile], control);
+  const checkpoint = new Checkpoint(control);
+
+  const routes = await routeOnGraph(base, waypoints, options, Infinity, control, checkpoint);
+  if (routes.length > 0 || (!options.avoid?.length && !options.zones?.length)) return routes;
+
+  log.info('No route that keeps every avoidance, retrying with those roads penalized');
+  return routeOnGraph(base, waypoints, options, AVOID_PENALTY, control, checkpoint);
+}
+
+// ============================================================
+// ONE-TO-MANY DIJKSTRA (cost matrices)
+// ============================================================
+interface Reach {
+  cost: number;
+  length: number;
+  time: number;
+}
+
+// Plain Dijkstra from one source, stopping once every target is settled.
+// Length and time are carried along the objective-optimal tree; `factor`
+// scales an edge's cost, and Infinity closes it.
+async function dijkstraToTargets(
+  network: GraphData,
+  source: number,
+  targets: number[],
+  objective: Objective,
+  factor: (edge: Edge) => number,
+  checkpoint: Checkpoint
+): Promise<Map<number, Reach>> {
+  const space = new StateSpace(network);
+  const reach = new Map<number, Reach>([[source, { cost: 0, length: 0, time: 0 }]]);
+  const best = new Map<number, Reach>(); // per node: first settled state wins
+  const settled = new Set<number>();
+  const remaining = new Set(targets);
+  const pq = new BinaryMinHeap();
+  pq.push(source, 0);
+
+  while (pq.size > 0 && remaining.size > 0) {
+    const curr = pq.pop()!;
+    if (settled.has(curr.id)) continue;
+    settled.add(curr.id);
+    if (checkpoint.due()) await checkpoint.pause();
+
+    const from = reach.get(curr.id)!;
+    const node = space.node(curr.id);
+    if (!best.has(node)) best.set(node, from);
+    remaining.delete(node);
+
+    for (const { edge, next } of space.successors(curr.id)) {
+      const cost = from.cost + edgeCost(edge, objective) * factor(edge);
+      if (cost < (reach.get(next)?.cost ?? Infinity)) {
+        reach.set(next, { cost, length: from.length + edge.length, time: from.time + edge.time });
+        pq.push(next, cost);
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Costs between every source and destination. Avoided roads and edges in
+ * active zones are closed as for routes, and reopened at AVOID_PENALTY only
+ * if that leaves a pair unreachable — so an optimized visit order is based on
+ * the roads the route will actually take.
+ */
+export async function computeLocalMatrix(
+  sources: Coordinate[],
+  destinations: Coordinate[],
+  { objective, profile, avoid = [], zones = [] }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<CostMatrix | null> {
+  const base = await fetchRoadNetwork([...sources, ...destinations], PROFILES[profile], control);
+  const checkpoint = new Checkpoint(control);
+  const attached = attachPoints(base, PROFILES[profile], [...sources, ...destinations], avoid);
+  if (!attached) return null;
+  const { network, ids } = attached;
+  const srcNodes = ids.slice(0, sources.length);
+  const dstNodes = ids.slice(sources.length);
+  const inZones = edgesInZones(base, attached, new ZoneTester(zones));
+  const avoided = (edge: Edge) => inZones.has(edge) || network.ways[edge.way].avoid.some(a => avoid.includes(a));
+
+  const costs = async (avoidFactor: number) => {
+    const rows: (Reach | null)[][] = [];
+    for (const src of srcNodes) {
+      const reach = await dijkstraToTargets(network, src, dstNodes, objective, edge => (avoided(edge) ? avoidFactor : 1), checkpoint);
+      rows.push(dstNodes.map(dst => reach.get(dst) ?? null));
+    }
+    return rows;
+  };
+
+  let rows = await costs(Infinity);
+  if (rows.some(row => row.includes(null)) && (avoid.length > 0 || inZones.size > 0)) {
+    log.info('Some pairs are unreachable while keeping every avoidance, retrying with those roads penalized');
+    rows = await costs(AVOID_PENALTY);
+  }
+
+  return {
+    distances: rows.map(row => row.map(r => r?.length ?? null)),
+    durations: rows.map(row => row.map(r => r?.time ?? null))
+  };
+}
+
+// ============================================================
+// ISOCHRONES (one-to-all Dijkstra under a budget)
+// ============================================================
+const ISOCHRONE_SAMPLE_M = 40; // spacing of reach samples along an edge
+const ISOCHRONE_MAX_RADIUS = 6000; // road data fetched around the origin, in meters
+// Typical door-to-door speeds, only used to size the area to download
+const ISOCHRONE_REACH_KMH: Record<ProfileId, number> = { car: 45, bike: 18, foot: 5 };
+
+/**
+ * Settles every state whose cost fits in the budget. Edges left partway
+ * through are sampled up to where the budget runs out, so long roads out of
+ * the area still count as reached along their first stretch.
+ */
+async function reachWithin(
+  network: GraphData,
+  source: number,
+  budget: number,
+  weight: (edge: Edge) => number,
+  closed: (edge: Edge) => boolean,
+  checkpoint: Checkpoint
+): Promise<ReachSample[]> {
+  const { nodes } = network;
+  const space = new StateSpace(network);
+  const cost = new Map<number, number>([[source, 0]]);
+  const settled = new Set<number>();
+  const samples: ReachSample[] = [];
+  const pq = new BinaryMinHeap();
+  pq.push(source, 0);
+
+  while (pq.size > 0) {
+    const curr = pq.pop()!;
+    if (settled.has(curr.id)) continue;
+    settled.add(curr.id);
+    if (checkpoint.due()) await checkpoint.pause();
+
+    const from = space.node(curr.id);
+    const a = nodes.get(from)!;
+    samples.push({ lat: a.lat, lng: a.lng, cost: curr.f });
+
+    for (const { edge, next } of space.successors(curr.id)) {
+      if (closed(edge)) continue;
+      const total = curr.f + weight(edge);
+      if (total <= budget && total < (cost.get(next) ?? Infinity)) {
+        cost.set(next, total);
+        pq.push(next, total);
+      }
+
+      const b = nodes.get(edge.to)!;
+      const steps = Math.floor(edge.length / ISOCHRONE_SAMPLE_M);
+      for (let k = 1; k <= steps; k++) {
+        const t = k / (steps + 1);
+        const c = curr.f + t * weight(edge);
+        if (c > budget) break;
+        samples.push({ lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng), cost: c });
+      }
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Areas reachable from `origin` within each budget (seconds for `time`,
+ * meters for `distance`). Avoided roads and active zones are closed, as for
+ * routes, but there is no penalized fallback: they just shrink the area.
+ */
+export async function computeIsochrones(
+  origin: Coordinate,
+  budgets: number[],
+  metric: IsochroneMetric,
+  { profile, avoid = [], zones = [] }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<IsochroneResult | null> {
+  const maxBudget = Math.max(...budgets);
+  const reach = metric === 'time' ? (maxBudget * ISOCHRONE_REACH_KMH[profile]) / 3.6 : maxBudget;
+  const radius = Math.min(reach, ISOCHRONE_MAX_RADIUS);
+
+  // The road network is fetched around the waypoints it is given, so span the radius with two of them
+  const dLat = radius / 110540, dLng = radius / (111320 * Math.cos(origin.lat * DEG_TO_RAD));
+  const extent = offlineNetwork ? [origin] : [
+    { lat: origin.lat - dLat, lng: origin.lng - dLng },
+    { lat: origin.lat + dLat, lng: origin.lng + dLng },
+  ];
+  const base = await fetchRoadNetwork(extent, PROFILES[profile], control);
+  const checkpoint = new Checkpoint(control);
+
+  const attached = attachPoints(base, PROFILES[profile], [origin], avoid);
+  if (!attached) return null;
+  const { network, ids, snapped } = attached;
+  const inZones = edgesInZones(base, attached, new ZoneTester(zones));
+  const closed = (edge: Edge) => inZones.has(edge) || network.ways[edge.way].avoid.some(a => avoid.includes(a));
+  const weight = (edge: Edge) => (metric === 'time' ? edge.time : edge.length);
+
+  const samples = await reachWithin(network, ids[0], maxBudget, weight, closed, checkpoint);
+  return {
+    origin: snapped[0],
+    metric,
+    profile,
+    isochrones: contourIsochrones(samples, budgets),
+    clipped: !offlineNetwork && reach > ISOCHRONE_MAX_RADIUS,
+  };
+}
+
+// ============================================================
+// NEAREST ROAD (map inspection)
+// ============================================================
+const NEAREST_ROAD_MAX_M = 500;
+
+/**
+ * Closest road to a point in the road data already loaded: the imported
+ * extract, or the graphs of recent routes. Tiles are never fetched for this,
+ * so places no route has been near yet come back null.
+ */
+export function findNearestRoad(point: Coordinate, control: TaskControl = {}): NearestRoad | null {
+  const graphs = [...networkCache.values()];
+  if (offlineNetwork) {
+    const { minLat, maxLat, minLon, maxLon } = offlineNetwork.bounds;
+    const inside = point.lat >= minLat && point.lat <= maxLat && point.lng >= minLon && point.lng <= maxLon;
+    // Any profile's graph will do; build the default one if none has been yet
+    if (inside && offlineGraphs.size === 0) offlineRoadNetwork(offlineNetwork, [point], PROFILES.car, control);
+    if (inside) graphs.push(...offlineGraphs.values());
+  }
+
+  return graphs
+    .map(graph => nearestRoad(graph, point, NEAREST_ROAD_MAX_M))
+    .reduce<NearestRoad | null>((best, hit) => (hit && (!best || hit.distance < best.distance) ? hit : best), null);
+}
+
+// ============================================================
+// BENCHMARK (A* vs bidirectional ALT on the same graph)
+// ============================================================
+export interface BenchmarkRun {
+  search: LocalSearch;
+  visited: number; // settled nodes, both directions for ALT
+  ms: number;
+  cost: number | null; // objective cost over all legs, null if unreachable
+}
+
+export interface BenchmarkResult {
+  nodes: number;
+  landmarks: number;
+  preprocessMs: number;
+  runs: BenchmarkRun[];
+}
+
+/**
+ * Routes the same legs with both searches. Landmarks are built (or reused)
+ * before the clock starts so only query time is compared.
+ */
+export async function benchmarkLocalSearch(
+  waypoints: Coordinate[],
+  { objective, profile }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<BenchmarkResult | null> {
+  const base = await fetchRoadNetwork(waypoints, PROFILES[profile], control);
+  const attached = attachPoints(base, PROFILES[profile], waypoints, [], tripHeadings(waypoints));
+  if (!attached) return null;
+  const table = await landmarksFor(base, objective, control);
+
+  const runs: BenchmarkRun[] = [];
+  for (const search of ['astar', 'alt'] as const) {
+    const checkpoint = new Checkpoint({ signal: control.signal });
+    const find = await pathSearch(base, attached, objective, search, control, checkpoint);
+    const t0 = performance.now();
+    let cost: number | null = 0;
+    for (let i = 0; i < attached.ids.length - 1 && cost !== null; i++) {
+      const result: PathResult | null = await find(attached.ids[i], attached.ids[i + 1]);
+      cost = result ? cost + result.cost : null;
+    }
+    runs.push({ search, visited: checkpoint.visited, ms: performance.now() - t0, cost });
+  }
+
+  return { nodes: base.graph.size, landmarks: table.fromLandmark.length, preprocessMs: table.buildMs, runs };
+}
+
+// ============================================================
+// SEARCH VISUALIZATION
+// ============================================================
+/**
+ * Routes the waypoints with A* or plain Dijkstra on the local graph and
+ * records every expansion. Turn restrictions apply, avoidances do not, as in
+ * the benchmark: the point is to compare search spaces, not routes.
+ */
+export async function traceLocalSearch(
+  waypoints: Coordinate[],
+  algorithm: TraceAlgorithm,
+  { objective, profile }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<SearchTrace | null> {
+  const base = await fetchRoadNetwork(waypoints, PROFILES[profile], control);
+  const attached = attachPoints(base, PROFILES[profile], waypoints, [], tripHeadings(waypoints));
+  if (!attached) return null;
+  const { network, ids } = attached;
+
+  const checkpoint = new Checkpoint(control);
+  const recorder = new SearchRecorder();
+  let path: [number, number][] = [];
+  for (let i = 0; i < ids.length - 1; i++) {
+    recorder.nextLeg();
+    const result = await aStar(network, ids[i], ids[i + 1], objective, checkpoint, undefined, { guided: algorithm === 'astar', recorder });
+    if (!result) {
+      path = [];
+      break;
+    }
+    const leg = result.path.map(id => [network.nodes.get(id)!.lat, network.nodes.get(id)!.lng] as [number, number]);
+    path.push(...(i === 0 ? leg : leg.slice(1)));
+  }
+
+  const { points, reached, settled, steps, truncated } = recorder;
+  return { algorithm, points, reached, settled, steps, path, truncated };
 }
@@ -0,0 +1,305 @@
+import type { Coordinate, RouteElevation } from './routing';
+import type { TileBounds } from './tileCache';
+import { haversineDistance } from './geo';
+import { log } from './log';
+
+/**
+ * A regular grid of heights in meters. Sample (col, row) sits at
+ * lng = west + col × dLng, lat = north − row × dLat; voids are NaN.
+ */
+interface DemTile {
+  name: string;
+  west: number;
+  north: number;
+  dLng: number;
+  dLat: number;
+  width: number;
+  height: number;
+  heights: Float32Array;
+}
+
+// What the main thread gets to know about a loaded tile
+export interface DemTileInfo {
+  name: string;
+  format: 'hgt' | 'geotiff';
+  bounds: TileBounds;
+  resolution: number; // meters between samples north–south
+}
+
+const SRTM_VOID = -32768;
+
+const tileBounds = ({ west, north, dLng, dLat, width, height }: DemTile): TileBounds => ({
+  minLat: north - (height - 1) * dLat,
+  maxLat: north,
+  minLon: west,
+  maxLon: west + (width - 1) * dLng,
+});
+
+// ============================================================
+// SRTM .hgt
+// ============================================================
+/**
+ * One 1°×1° SRTM cell: big-endian int16 rows from north to south, 1201 (3″)
+ * or 3601 (1″) samples square, edges shared with the neighbours. The file
+ * name (N52E013.hgt) gives the south-west corner.
+ */
+export function parseHgt(name: string, buffer: ArrayBuffer): DemTile {
+  const corner = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(name);
+  if (!corner) throw new Error('SRTM file names must look like N52E013.hgt');
+  const south = Number(corner[2]) * (corner[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = Number(corner[4]) * (corner[3].toUpperCase() === 'W' ? -1 : 1);
+
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size) || size < 2) throw new Error(`${name} is not a square SRTM grid`);
+
+  const view = new DataView(buffer);
+  const heights = new Float32Array(size * size);
+  for (let i = 0; i < heights.length; i++) {
+    const h = view.getInt16(i * 2, false);
+    heights[i] = h === SRTM_VOID ? NaN : h;
+  }
+  const step = 1 / (size - 1);
+  return { name, west, north: south + 1, dLng: step, dLat: step, width: size, height: size, heights };
+}
+
+// ============================================================
+// GEOTIFF (uncompressed, single band, north-up)
+// ============================================================
+const TIFF_TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8 };
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiepoint: 33922,
+  geoKeys: 34735,
+  noData: 42113,
+};
+
+const RASTER_TYPE_KEY = 1025; // GTRasterTypeGeoKey: 1 = PixelIsArea, 2 = PixelIsPoint
+
+function readIfd(view: DataView, offset: number, little: boolean): Map<number, number[] | string> {
+  const tags = new Map<number, number[] | string>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TIFF_TYPE_SIZE[type] ?? 1;
+    const at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      tags.set(tag, new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + at, n)).replace(/\0+$/, ''));
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = at + k * size;
+      switch (type) {
+        case 3: values.push(view.getUint16(p, little)); break;
+        case 4: values.push(view.getUint32(p, little)); break;
+        case 8: values.push(view.getInt16(p, little)); break;
+        case 9: values.push(view.getInt32(p, little)); break;
+        case 11: values.push(view.getFloat32(p, little)); break;
+        case 12: values.push(view.getFloat64(p, little)); break;
+        default: values.push(view.getUint8(p));
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+function pixelReader(view: DataView, bits: number, format: number, little: boolean): (at: number) => number {
+  if (format === 3 && bits === 32) return at => view.getFloat32(at, little);
+  if (format === 3 && bits === 64) return at => view.getFloat64(at, little);
+  if (bits === 16) return format === 2 ? at => view.getInt16(at, little) : at => view.getUint16(at, little);
+  if (bits === 32) return format === 2 ? at => view.getInt32(at, little) : at => view.getUint32(at, little);
+  if (bits === 8) return format === 2 ? at => view.getInt8(at) : at => view.getUint8(at);
+  throw new Error(`${bits}-bit samples are not supported`);
+}
+
+/**
+ * Reads the first image of a GeoTIFF in geographic coordinates (EPSG:4326,
+ * as SRTM and Copernicus DEMs ship). Compressed files are rejected; convert
+ * them with `gdal_translate -co COMPRESS=NONE` first.
+ */
+export function parseGeoTiff(name: string, buffer: ArrayBuffer): DemTile {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error(`${name} is not a TIFF file`);
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) throw new Error(`${name} is a BigTIFF, which is not supported`);
+
+  const tags = readIfd(view, view.getUint32(4, little), little);
+  const num = (tag: number, fallback?: number) => {
+    const value = tags.get(tag);
+    if (Array.isArray(value)) return value[0];
+    if (fallback === undefined) throw new Error(`${name} lacks TIFF tag ${tag}`);
+    return fallback;
+  };
+  const list = (tag: number) => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : [];
+  };
+
+  if (num(TAG.compression, 1) !== 1) throw new Error(`${name} is compressed; only uncompressed GeoTIFFs can be read`);
+  if (num(TAG.samplesPerPixel, 1) !== 1) throw new Error(`${name} has more than one band`);
+  const [scaleX, scaleY] = list(TAG.pixelScale);
+  const [, , , tieX, tieY] = list(TAG.tiepoint);
+  if (scaleX === undefined || tieY === undefined) throw new Error(`${name} has no georeferencing`);
+  if (Math.abs(tieX) > 180 || Math.abs(tieY) > 90) throw new Error(`${name} is not in geographic (lat/lng) coordinates`);
+
+  const width = num(TAG.width), height = num(TAG.height);
+  const bits = num(TAG.bitsPerSample), bytes = bits / 8;
+  const read = pixelReader(view, bits, num(TAG.sampleFormat, 1), little);
+  const noData = tags.has(TAG.noData) ? Number(tags.get(TAG.noData)) : NaN;
+  const heights = new Float32Array(width * height);
+  const put = (col: number, row: number, at: number) => {
+    if (col >= width || row >= height) return;
+    const h = read(at);
+    heights[row * width + col] = h === noData ? NaN : h;
+  };
+
+  if (tags.has(TAG.tileOffsets)) {
+    const tw = num(TAG.tileWidth), th = num(TAG.tileLength);
+    const across = Math.ceil(width / tw);
+    list(TAG.tileOffsets).forEach((offset, t) => {
+      const x0 = (t % across) * tw, y0 = Math.floor(t / across) * th;
+      for (let y = 0; y < th; y++) {
+        for (let x = 0; x < tw; x++) put(x0 + x, y0 + y, offset + (y * tw + x) * bytes);
+      }
+    });
+  } else {
+    const rowsPerStrip = num(TAG.rowsPerStrip, height);
+    list(TAG.stripOffsets).forEach((offset, s) => {
+      for (let y = 0; y < rowsPerStrip; y++) {
+        for (let x = 0; x < width; x++) put(x, s * rowsPerStrip + y, offset + (y * width + x) * bytes);
+      }
+    });
+  }
+
+  // PixelIsArea ties the corner of the first pixel; heights belong to pixel centres
+  const keys = list(TAG.geoKeys);
+  let pixelIsPoint = false;
+  for (let k = 4; k + 3 < keys.length; k += 4) {
+    if (keys[k] === RASTER_TYPE_KEY) pixelIsPoint = keys[k + 3] === 2;
+  }
+  const shift = pixelIsPoint ? 0 : 0.5;
+  return { name, west: tieX + shift * scaleX, north: tieY - shift * scaleY, dLng: scaleX, dLat: scaleY, width, height, heights };
+}
+
+// ============================================================
+// LOADED TILES (kept in the routing worker)
+// ============================================================
+let tiles: DemTile[] = [];
+
+export const hasElevation = () => tiles.length > 0;
+
+export async function importDemFile(file: File): Promise<DemTileInfo> {
+  const buffer = await file.arrayBuffer();
+  const format = /\.tiff?$/i.test(file.name) ? 'geotiff' : 'hgt';
+  const tile = format === 'geotiff' ? parseGeoTiff(file.name, buffer) : parseHgt(file.name, buffer);
+  // A file loaded again replaces its earlier copy
+  tiles = [...tiles.filter(t => t.name !== tile.name), tile];
+  log.info(`Elevation tile ${tile.name} loaded — ${tile.width}×${tile.height} samples`);
+  return { name: tile.name, format, bounds: tileBounds(tile), resolution: Math.round(tile.dLat * 110540) };
+}
+
+export function clearDemTiles() {
+  tiles = [];
+}
+
+// Bilinear height from one tile, or null outside it or next to a void
+function sampleTile(tile: DemTile, { lat, lng }: Coordinate): number | null {
+  const x = (lng - tile.west) / tile.dLng, y = (tile.north - lat) / tile.dLat;
+  if (x < 0 || y < 0 || x > tile.width - 1 || y > tile.height - 1) return null;
+  const c = Math.min(Math.floor(x), tile.width - 2), r = Math.min(Math.floor(y), tile.height - 2);
+  const fx = x - c, fy = y - r;
+  const at = (dc: number, dr: number) => tile.heights[(r + dr) * tile.width + c + dc];
+  const h = (at(0, 0) * (1 - fx) + at(1, 0) * fx) * (1 - fy) + (at(0, 1) * (1 - fx) + at(1, 1) * fx) * fy;
+  return Number.isNaN(h) ? null : h;
+}
+
+export function elevationAt(point: Coordinate): number | null {
+  for (const tile of tiles) {
+    const h = sampleTile(tile, point);
+    if (h !== null) return h;
+  }
+  return null;
+}
+
+// ============================================================
+// ROUTE PROFILE
+// ============================================================
+const SAMPLE_M = 30; // about one SRTM cell
+const NOISE_M = 3; // height changes smaller than this do not count as climbing
+const GRADE_WINDOW_M = 100; // grades are measured over at least this distance
+const MAX_PROFILE_POINTS = 400;
+
+/**
+ * Samples the DEM every SAMPLE_M along a route. Ascent and descent only
+ * count changes larger than NOISE_M, so DEM jitter on the flat does not
+ * add up to phantom climbs. Null when the route is not covered.
+ */
+export function routeElevation(geometry: [number, number][]): RouteElevation | null {
+  if (tiles.length === 0 || geometry.length < 2) return null;
+
+  const samples: { distance: number; elevation: number; lat: number; lng: number }[] = [];
+  let travelled = 0;
+  const sample = (lat: number, lng: number) => {
+    const elevation = elevationAt({ lat, lng });
+    if (elevation !== null) samples.push({ distance: travelled, elevation, lat, lng });
+  };
+
+  sample(...geometry[0]);
+  for (let i = 1; i < geometry.length; i++) {
+    const [lat0, lng0] = geometry[i - 1], [lat1, lng1] = geometry[i];
+    const length = haversineDistance({ lat: lat0, lng: lng0 }, { lat: lat1, lng: lng1 });
+    const start = travelled;
+    const next = Math.floor(start / SAMPLE_M) + 1;
+    for (let d = next * SAMPLE_M; d < start + length; d += SAMPLE_M) {
+      const t = (d - start) / length;
+      travelled = d;
+      sample(lat0 + t * (lat1 - lat0), lng0 + t * (lng1 - lng0));
+    }
+    travelled = start + length;
+  }
+  sample(...geometry[geometry.length - 1]);
+  // Half the route uncovered would make the totals meaningless
+  if (samples.length < 2 || samples.length < (travelled / SAMPLE_M) / 2) return null;
+
+  let ascent = 0, descent = 0, anchor = samples[0].elevation;
+  for (const { elevation } of samples) {
+    if (elevation - anchor >= NOISE_M) {
+      ascent += elevation - anchor;
+      anchor = elevation;
+    } else if (anchor - elevation >= NOISE_M) {
+      descent += anchor - elevation;
+      anchor = elevation;
+    }
+  }
+
+  let maxGrade = 0;
+  for (let i = 0, j = 0; i < samples.length; i++) {
+    while (j < samples.length && samples[j].distance - samples[i].distance < GRADE_WINDOW_M) j++;
+    if (j === samples.length) break;
+    const grade = (samples[j].elevation - samples[i].elevation) / (samples[j].distance - samples[i].distance);
+    if (grade > maxGrade) maxGrade = grade;
+  }
+
+  const every = Math.ceil(samples.length / MAX_PROFILE_POINTS);
+  const profile = samples.filter((_, i) => i % every === 0 || i === samples.length - 1);
+  return { ascent, descent, maxGrade, profile };
+}
@@ -0,0 +1,60 @@
+import { osrmEngine, routeLines } from './routing';
+import { localEngine, runInWorker } from './workerClient';
+import { log } from './log';
+import type { EngineId, RouteData, RoutingEngine, TaskControl } from './routing';
+
+/**
+ * OSRM cannot be told about avoid-zones, so its candidates are checked
+ * afterwards. Any that stay clear are kept; if none do, the local engine
+ * routes instead. Should that fail too, OSRM's routes come back with their
+ * violations reported.
+ */
+const osrmWithZones: RoutingEngine = {
+  ...osrmEngine,
+  route: async (waypoints, options, control) => {
+    const routes = await osrmEngine.route(waypoints, options, control);
+    if (!options?.zones?.length || routes.length === 0) return routes;
+
+    const clear = routes.filter(r => r.avoidance.zones.length === 0);
+    if (clear.length > 0) return clear;
+
+    const entered = [...new Set(routes.flatMap(r => r.avoidance.zones))].join(', ');
+    log.info(`OSRM route enters ${entered}, falling back to the local engine`);
+    try {
+      const local = await localEngine.route(waypoints, options, control);
+      if (local.length > 0) return local.map(r => ({ ...r, fallback: `OSRM route entered ${entered}` }));
+    } catch (error) {
+      if (control?.signal?.aborted) throw error;
+      log.warn('Local fallback failed:', error);
+    }
+    return routes;
+  },
+};
+
+/**
+ * Fills in ascent, descent and the elevation profile from the DEM tiles
+ * loaded into the worker. Routes come back unchanged when none are loaded,
+ * or if the lookup fails.
+ */
+export async function addElevation(routes: RouteData[], control: TaskControl = {}): Promise<RouteData[]> {
+  if (routes.length === 0) return routes;
+  try {
+    const profiles = await runInWorker({ type: 'routeElevation', lines: routes.map(r => routeLines(r).flat()) }, { signal: control.signal });
+    return profiles ? routes.map((r, i) => ({ ...r, elevation: profiles[i] })) : routes;
+  } catch (error) {
+    if (control.signal?.aborted) throw error;
+    log.warn('Elevation lookup failed:', error);
+    return routes;
+  }
+}
+
+const withElevation = (engine: RoutingEngine): RoutingEngine => ({
+  ...engine,
+  route: async (waypoints, options, control) => addElevation(await engine.route(waypoints, options, control), control),
+});
+
+export const ROUTING_ENGINES: RoutingEngine[] = [osrmWithZones, localEngine].map(withElevation);
+
+export function getEngine(id: EngineId): RoutingEngine {
+  return ROUTING_ENGINES.find(e => e.id === id) ?? ROUTING_ENGINES[0];
+}
@@ -0,0 +1,34 @@
+import type { Coordinate } from './routing';
+
+// ============================================================
+// HAVERSINE DISTANCE (meters)
+// ============================================================
+export const DEG_TO_RAD = Math.PI / 180;
+
+export function haversineDistance(c1: Coordinate, c2: Coordinate): number {
+  const R = 6371e3;
+  const dLat = (c2.lat - c1.lat) * DEG_TO_RAD;
+  const dLon = (c2.lng - c1.lng) * DEG_TO_RAD;
+  const a =
+    Math.sin(dLat * 0.5) * Math.sin(dLat * 0.5) +
+    Math.cos(c1.lat * DEG_TO_RAD) * Math.cos(c2.lat * DEG_TO_RAD) *
+    Math.sin(dLon * 0.5) * Math.sin(dLon * 0.5);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Fast approximation for heuristic (no trig, ~0.5% error at city scale)
+export function fastApproxDistance(c1: Coordinate, c2: Coordinate): number {
+  const latMid = (c1.lat + c2.lat) * 0.5 * DEG_TO_RAD;
+  const dx = (c2.lng - c1.lng) * DEG_TO_RAD * Math.cos(latMid) * 6371e3;
+  const dy = (c2.lat - c1.lat) * DEG_TO_RAD * 6371e3;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+// Initial bearing from c1 to c2 in degrees, 0 = north, clockwise
+export function bearing(c1: Coordinate, c2: Coordinate): number {
+  const lat1 = c1.lat * DEG_TO_RAD, lat2 = c2.lat * DEG_TO_RAD;
+  const dLon = (c2.lng - c1.lng) * DEG_TO_RAD;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) / DEG_TO_RAD + 360) % 360;
+}
@@ -0,0 +1,313 @@
+import type { Coordinate } from './routing';
+import type { TileBounds } from './tileCache';
+import { haversineDistance } from './geo';
+
+export type PlaceType = 'address' | 'poi' | 'street' | 'locality' | 'region' | 'country' | 'other';
+
+export interface GeocodeResult {
+  name: string; // the place itself, e.g. "Brandenburger Tor"
+  label: string; // what goes into an address field: name plus town
+  detail: string; // street, town, state and country, for the suggestion list
+  coordinate: Coordinate;
+  bbox: TileBounds | null; // extent of larger places, when the provider knows it
+  type: PlaceType;
+  source: string; // id of the provider that found it
+}
+
+// Where the user is looking and where they are; either may be unknown
+export interface GeocodeBias {
+  viewport?: TileBounds;
+  location?: Coordinate;
+}
+
+export interface GeocodeOptions {
+  limit?: number;
+  bias?: GeocodeBias;
+  signal?: AbortSignal;
+}
+
+/**
+ * One place-search backend. Providers resolve to an empty list when they have
+ * nothing, and reject only on transport errors.
+ */
+export interface GeocodingProvider {
+  id: string;
+  label: string;
+  search(query: string, options: GeocodeOptions): Promise<GeocodeResult[]>;
+  reverse?(coordinate: Coordinate, signal?: AbortSignal): Promise<GeocodeResult | null>;
+}
+
+const TIMEOUT_MS = 3000;
+
+const joined = (...parts: (string | undefined)[]) => parts.filter(Boolean).join(', ');
+
+const biasCenter = ({ viewport, location }: GeocodeBias = {}): Coordinate | undefined =>
+  viewport ? { lat: (viewport.minLat + viewport.maxLat) / 2, lng: (viewport.minLon + viewport.maxLon) / 2 } : location;
+
+// ============================================================
+// PHOTON (komoot)
+// ============================================================
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    name?: string;
+    street?: string;
+    housenumber?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    type?: string;
+    osm_key?: string;
+    extent?: [number, number, number, number]; // minLon, maxLat, maxLon, minLat
+  };
+}
+
+function photonType({ type, osm_key, housenumber }: PhotonFeature['properties']): PlaceType {
+  switch (type) {
+    case 'house': return housenumber && osm_key !== 'amenity' && osm_key !== 'shop' ? 'address' : 'poi';
+    case 'street': return 'street';
+    case 'city': case 'district': case 'locality': return 'locality';
+    case 'county': case 'state': return 'region';
+    case 'country': return 'country';
+    default: return 'other';
+  }
+}
+
+function fromPhoton({ geometry, properties: p }: PhotonFeature): GeocodeResult {
+  const [lng, lat] = geometry.coordinates;
+  const street = [p.street, p.housenumber].filter(Boolean).join(' ');
+  const name = p.name || street;
+  return {
+    name,
+    label: joined(name, p.city || p.state),
+    detail: joined(p.street, p.city, p.state, p.country),
+    coordinate: { lat, lng },
+    bbox: p.extent ? { minLon: p.extent[0], maxLat: p.extent[1], maxLon: p.extent[2], minLat: p.extent[3] } : null,
+    type: photonType(p),
+    source: 'photon',
+  };
+}
+
+export const photonProvider: GeocodingProvider = {
+  id: 'photon',
+  label: 'Photon',
+  search: async (query, { limit = 5, bias, signal }) => {
+    const center = biasCenter(bias);
+    const near = center ? `&lat=${center.lat}&lon=${center.lng}` : '';
+    const res = await fetch(`https://photon.komoot.io/api/?q=${encodeURIComponent(query)}&limit=${limit}${near}`, { signal });
+    const data: { features?: PhotonFeature[] } = await res.json();
+    return (data.features ?? []).map(fromPhoton);
+  },
+  reverse: async ({ lat, lng }, signal) => {
+    const res = await fetch(`https://photon.komoot.io/reverse?lat=${lat}&lon=${lng}&limit=1`, { signal });
+    const data: { features?: PhotonFeature[] } = await res.json();
+    return data.features?.length ? fromPhoton(data.features[0]) : null;
+  },
+};
+
+// ============================================================
+// NOMINATIM (OpenStreetMap)
+// ============================================================
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name?: string;
+  category?: string;
+  addresstype?: string;
+  boundingbox?: [string, string, string, string]; // minLat, maxLat, minLon, maxLon
+  address?: Record<string, string>;
+}
+
+const POI_CATEGORIES = new Set(['amenity', 'shop', 'tourism', 'leisure', 'historic', 'office', 'railway', 'aeroway']);
+
+function nominatimType({ addresstype, category, address }: NominatimPlace): PlaceType {
+  switch (addresstype) {
+    case 'house': case 'building': return address?.house_number ? 'address' : 'poi';
+    case 'road': return 'street';
+    case 'city': case 'town': case 'village': case 'hamlet': case 'suburb': case 'neighbourhood': case 'quarter': return 'locality';
+    case 'county': case 'state': case 'region': return 'region';
+    case 'country': return 'country';
+  }
+  return category && POI_CATEGORIES.has(category) ? 'poi' : 'other';
+}
+
+function fromNominatim(place: NominatimPlace): GeocodeResult {
+  const a = place.address ?? {};
+  const town = a.city || a.town || a.village;
+  const name = place.name || place.display_name?.split(',')[0] || '';
+  const box = place.boundingbox?.map(Number);
+  return {
+    name,
+    label: joined(name, town || a.state),
+    detail: joined(a.road, town, a.state, a.country),
+    coordinate: { lat: parseFloat(place.lat), lng: parseFloat(place.lon) },
+    bbox: box ? { minLat: box[0], maxLat: box[1], minLon: box[2], maxLon: box[3] } : null,
+    type: nominatimType(place),
+    source: 'nominatim',
+  };
+}
+
+export const nominatimProvider: GeocodingProvider = {
+  id: 'nominatim',
+  label: 'Nominatim',
+  search: async (query, { limit = 5, bias, signal }) => {
+    // viewbox only prefers the visible area (bounded=0), it does not filter
+    const box = bias?.viewport;
+    const viewbox = box ? `&viewbox=${box.minLon},${box.maxLat},${box.maxLon},${box.minLat}` : '';
+    const res = await fetch(
+      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=${limit}&addressdetails=1${viewbox}`,
+      { signal }
+    );
+    const data: NominatimPlace[] = await res.json();
+    return data.map(fromNominatim);
+  },
+  reverse: async ({ lat, lng }, signal) => {
+    const res = await fetch(`https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=jsonv2&addressdetails=1`, { signal });
+    const data: NominatimPlace & { error?: string } = await res.json();
+    return data.error ? null : fromNominatim(data);
+  },
+};
+
+// ============================================================
+// LOCAL GAZETTEER (places from an imported extract, works offline)
+// ============================================================
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+class LocalGazetteer implements GeocodingProvider {
+  id = 'gazetteer';
+  label = 'Offline map';
+  private entries: { key: string; place: GeocodeResult }[] = [];
+
+  setPlaces(places: GeocodeResult[]) {
+    this.entries = places.map(place => ({ key: normalize(place.name), place }));
+  }
+
+  // Whole-name prefix matches first, then word-prefix, then anywhere in the name
+  async search(query: string, { limit = 5 }: GeocodeOptions): Promise<GeocodeResult[]> {
+    const q = normalize(query);
+    if (!q) return [];
+    const score = (key: string) => (key.startsWith(q) ? 0 : key.includes(` ${q}`) ? 1 : key.includes(q) ? 2 : -1);
+    return this.entries
+      .map(entry => ({ entry, score: score(entry.key) }))
+      .filter(m => m.score >= 0)
+      .sort((a, b) => a.score - b.score || a.entry.key.length - b.entry.key.length)
+      .slice(0, limit)
+      .map(m => m.entry.place);
+  }
+}
+
+export const localGazetteer = new LocalGazetteer();
+
+// Raced against each other; the gazetteer is always consulted alongside
+export const REMOTE_GEOCODERS: GeocodingProvider[] = [photonProvider, nominatimProvider];
+
+// ============================================================
+// SEARCH (race, merge, rank)
+// ============================================================
+const BIAS_WEIGHT = 1.5; // rank positions given up per doubling of distance
+const BIAS_SCALE_M = 5000;
+const DUPLICATE_M = 100;
+const searchCache = new Map<string, GeocodeResult[]>();
+
+/**
+ * Reorders results toward the viewport and the user's location. A result
+ * keeps its provider order unless it is much farther away than the ones
+ * below it; regions and countries are never pushed down for distance.
+ */
+function rankByBias(results: GeocodeResult[], bias: GeocodeBias = {}): GeocodeResult[] {
+  const anchors = [biasCenter({ viewport: bias.viewport }), bias.location].filter((a): a is Coordinate => !!a);
+  if (anchors.length === 0) return results;
+
+  const penalty = (r: GeocodeResult) => {
+    if (r.type === 'region' || r.type === 'country') return 0;
+    const d = Math.min(...anchors.map(a => haversineDistance(a, r.coordinate)));
+    return BIAS_WEIGHT * Math.log2(1 + d / BIAS_SCALE_M);
+  };
+  return results
+    .map((r, i) => ({ r, score: i + penalty(r) }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ r }) => r);
+}
+
+function dedupe(results: GeocodeResult[]): GeocodeResult[] {
+  return results.filter((r, i) =>
+    !results.slice(0, i).some(o => normalize(o.name) === normalize(r.name) && haversineDistance(o.coordinate, r.coordinate) < DUPLICATE_M)
+  );
+}
+
+/**
+ * Suggestions for a query: the remote providers race (first non-empty answer
+ * wins, TIMEOUT_MS at most), the offline gazetteer fills in, and everything
+ * is ranked by the bias. Remote failures just leave the gazetteer's results.
+ */
+export async function searchPlaces(query: string, { limit = 5, bias, signal }: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+  const center = biasCenter(bias);
+  const key = `${normalize(query)}|${limit}|${center ? `${center.lat.toFixed(1)},${center.lng.toFixed(1)}` : ''}`;
+  const cached = searchCache.get(key);
+  if (cached) return cached;
+
+  const local = await localGazetteer.search(query, { limit });
+  const timeout = new Promise<never>((_, reject) => setTimeout(() => reject(new Error('geocode timeout')), TIMEOUT_MS));
+  const remote = await Promise.any([
+    ...REMOTE_GEOCODERS.map(p => p.search(query, { limit, bias, signal }).then(r => (r.length ? r : Promise.reject(new Error('empty'))))),
+    timeout,
+  ]).catch((error: AggregateError | Error) => {
+    if (signal?.aborted) throw signal.reason;
+    console.warn(`No remote geocoding result for "${query}"`, error);
+    return [] as GeocodeResult[];
+  });
+
+  const results = rankByBias(dedupe([...local, ...remote]), bias).slice(0, limit);
+  // Empty answers may be a network blip; only cache real ones
+  if (results.length > 0) searchCache.set(key, results);
+  return results;
+}
+
+// Best single match for free text, or null. Asks for a full page so the bias has something to rank
+export async function geocode(query: string, bias?: GeocodeBias): Promise<GeocodeResult | null> {
+  try {
+    const [best] = await searchPlaces(query, { bias });
+    return best ?? null;
+  } catch (e) {
+    console.error('Geocode failed:', e);
+    return null;
+  }
+}
+
+// ============================================================
+// REVERSE (race, cached per ~10 m)
+// ============================================================
+const reverseCache = new Map<string, Promise<GeocodeResult | null>>();
+const reverseKey = ({ lat, lng }: Coordinate) => `${lat.toFixed(4)},${lng.toFixed(4)}`;
+
+/**
+ * Address of a map position — the same race as search, in reverse. Lookups
+ * are shared while in flight, so a map click and the input it fills cost one
+ * request; failures are dropped from the cache to be retried.
+ */
+export function reverseGeocode(coordinate: Coordinate): Promise<GeocodeResult | null> {
+  const key = reverseKey(coordinate);
+  let lookup = reverseCache.get(key);
+  if (!lookup) {
+    lookup = raceReverse(coordinate);
+    reverseCache.set(key, lookup);
+    lookup.then(place => place || reverseCache.delete(key));
+  }
+  return lookup;
+}
+
+async function raceReverse(coordinate: Coordinate): Promise<GeocodeResult | null> {
+  try {
+    const timeout = new Promise<never>((_, reject) => setTimeout(() => reject(new Error('reverse geocode timeout')), TIMEOUT_MS));
+    return await Promise.any([
+      ...REMOTE_GEOCODERS.filter(p => p.reverse).map(p =>
+        p.reverse!(coordinate).then(r => (r?.label ? r : Promise.reject(new Error('empty'))))
+      ),
+      timeout,
+    ]);
+  } catch (e) {
+    console.error('Reverse geocode failed:', e);
+    return null;
+  }
+}
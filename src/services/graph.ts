@@ -0,0 +1,287 @@
+import type { Avoidance, Coordinate, TaskControl } from './routing';
+import { haversineDistance } from './geo';
+import { FERRY_SPEED_KMH } from './speeds';
+import { isWayAllowed, onewayValue } from './profiles';
+import type { TravelProfile } from './profiles';
+
+// ============================================================
+// OSM INPUT (Overpass JSON element shape)
+// ============================================================
+export interface OsmMember {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role: string;
+}
+
+export interface OsmElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  members?: OsmMember[];
+  tags?: Record<string, string>;
+}
+
+// ============================================================
+// ROAD GRAPH
+// ============================================================
+export interface WayInfo {
+  id: number; // OSM way id
+  name: string;
+  highway: string; // '' for ferries
+  avoid: Avoidance[]; // avoidance classes the way falls into
+}
+
+export interface Edge {
+  to: number;
+  length: number; // meters
+  time: number; // seconds at the way's speed
+  way: number; // index into GraphData.ways
+}
+
+/**
+ * A turn restriction between way indices. `via` is a node id for via-node
+ * restrictions or a way index for via-way ones. `only` restrictions forbid
+ * every exit except `to`; the others forbid `to` itself.
+ */
+export interface TurnRestriction {
+  from: number;
+  viaNode: number | null;
+  viaWay: number | null;
+  to: number;
+  only: boolean;
+}
+
+export interface RestrictionIndex {
+  byViaNode: Map<number, TurnRestriction[]>;
+  byViaWay: Map<number, TurnRestriction[]>;
+  viaWayFroms: Set<number>; // ways that can start a via-way restriction
+}
+
+export interface GraphData {
+  nodes: Map<number, Coordinate>;
+  graph: Map<number, Edge[]>;
+  ways: WayInfo[];
+  restrictions: RestrictionIndex;
+  maxSpeed: number; // fastest edge in m/s — keeps the time heuristic admissible
+  source: string; // where the elements came from, shown in route labels
+}
+
+// ============================================================
+// ONEWAY SEMANTICS
+// ============================================================
+export type WayDirection = 'both' | 'forward' | 'backward' | 'none';
+
+const ONEWAY_FORWARD = new Set(['yes', 'true', '1']);
+const ONEWAY_BACKWARD = new Set(['-1', 'reverse']);
+const ONEWAY_CLOSED = new Set(['reversible', 'alternating']); // direction changes over time — unroutable
+
+/**
+ * Resolves which way a profile may travel along a way. Explicit tags win;
+ * otherwise roundabouts and motorways are implicitly oneway.
+ */
+export function wayDirection(profile: TravelProfile, tags: Record<string, string>): WayDirection {
+  if (!profile.onewayTags) return 'both';
+
+  const value = onewayValue(profile, tags);
+  if (value !== undefined) {
+    if (ONEWAY_FORWARD.has(value)) return 'forward';
+    if (ONEWAY_BACKWARD.has(value)) return 'backward';
+    if (ONEWAY_CLOSED.has(value)) return 'none';
+    return 'both';
+  }
+
+  if (tags.junction === 'roundabout' || tags.junction === 'circular') return 'forward';
+  if (tags.highway === 'motorway') return 'forward';
+  return 'both';
+}
+
+// ============================================================
+// AVOIDANCE CLASSES
+// ============================================================
+const UNPAVED_SURFACES = new Set([
+  'unpaved', 'compacted', 'fine_gravel', 'gravel', 'pebblestone', 'rock', 'ground', 'dirt',
+  'earth', 'grass', 'grass_paver', 'mud', 'sand', 'woodchips', 'snow', 'ice', 'salt',
+]);
+const NO_CLASSES: Avoidance[] = [];
+
+export function avoidanceClasses(tags: Record<string, string>): Avoidance[] {
+  const classes: Avoidance[] = [];
+  if (tags.highway === 'motorway' || tags.highway === 'motorway_link') classes.push('motorway');
+  if (tags.toll === 'yes') classes.push('toll');
+  if (tags.route === 'ferry') classes.push('ferry');
+  // Tracks without a surface tag are unpaved unless graded solid
+  const surface = tags.surface ?? (tags.highway === 'track' && tags.tracktype !== 'grade1' ? 'unpaved' : undefined);
+  if (surface && UNPAVED_SURFACES.has(surface)) classes.push('unpaved');
+  return classes.length ? classes : NO_CLASSES; // most ways share the empty array
+}
+
+// ============================================================
+// TURN RESTRICTIONS
+// ============================================================
+// Restriction value binding this profile, or null if it does not apply
+function restrictionValue(profile: TravelProfile, tags: Record<string, string>): string | null {
+  const modes = profile.restrictionModes;
+  if (!modes || tags.type !== 'restriction') return null;
+
+  const exempt = (tags.except ?? '').split(';').map(m => m.trim());
+  if (modes.some(m => exempt.includes(m))) return null;
+
+  for (const mode of modes) {
+    if (tags[`restriction:${mode}`]) return tags[`restriction:${mode}`];
+  }
+  return tags.restriction ?? null;
+}
+
+function parseRestrictions(
+  relations: OsmElement[],
+  profile: TravelProfile,
+  wayIndex: Map<number, number>
+): RestrictionIndex {
+  const index: RestrictionIndex = { byViaNode: new Map(), byViaWay: new Map(), viaWayFroms: new Set() };
+
+  for (const rel of relations) {
+    const value = restrictionValue(profile, rel.tags ?? {});
+    if (!value || !(value.startsWith('no_') || value.startsWith('only_'))) continue;
+
+    const members = rel.members ?? [];
+    const froms = members.filter(m => m.role === 'from' && m.type === 'way').map(m => wayIndex.get(m.ref));
+    const tos = members.filter(m => m.role === 'to' && m.type === 'way').map(m => wayIndex.get(m.ref));
+    const vias = members.filter(m => m.role === 'via');
+
+    // Chains of several via ways are rare and not supported
+    if (vias.length !== 1) continue;
+    const via = vias[0];
+    const viaWay = via.type === 'way' ? wayIndex.get(via.ref) : undefined;
+    if (via.type === 'way' && viaWay === undefined) continue;
+
+    // no_entry / no_exit may list several from or to ways
+    for (const from of froms) {
+      for (const to of tos) {
+        // Members outside this profile's graph cannot be travelled anyway
+        if (from === undefined || to === undefined) continue;
+        const restriction: TurnRestriction = {
+          from,
+          viaNode: via.type === 'node' ? via.ref : null,
+          viaWay: viaWay ?? null,
+          to,
+          only: value.startsWith('only_'),
+        };
+        if (restriction.viaNode !== null) {
+          const list = index.byViaNode.get(restriction.viaNode) ?? [];
+          list.push(restriction);
+          index.byViaNode.set(restriction.viaNode, list);
+        } else if (restriction.viaWay !== null) {
+          const list = index.byViaWay.get(restriction.viaWay) ?? [];
+          list.push(restriction);
+          index.byViaWay.set(restriction.viaWay, list);
+          index.viaWayFroms.add(from);
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * True if moving from `inWay` onto `outWay` at `node` breaks a restriction.
+ * `prevWay` is the way travelled before `inWay`, needed for via-way rules.
+ */
+export function isTurnForbidden(
+  { byViaNode, byViaWay }: RestrictionIndex,
+  node: number,
+  prevWay: number,
+  inWay: number,
+  outWay: number
+): boolean {
+  for (const r of byViaNode.get(node) ?? []) {
+    if (r.from !== inWay) continue;
+    if (r.only ? outWay !== r.to : outWay === r.to) return true;
+  }
+
+  // Leaving the via way: only the exit matters, continuing along it is fine
+  if (outWay !== inWay) {
+    for (const r of byViaWay.get(inWay) ?? []) {
+      if (r.from !== prevWay) continue;
+      if (r.only ? outWay !== r.to : outWay === r.to) return true;
+    }
+  }
+
+  return false;
+}
+
+// ============================================================
+// GRAPH BUILDER
+// ============================================================
+const PROGRESS_EVERY = 20000; // elements between progress reports
+
+/**
+ * Turns raw OSM elements into a directed, profile-specific road graph.
+ * Pure and synchronous so it works on live Overpass data and saved extracts alike.
+ */
+export function buildGraph(
+  elements: OsmElement[],
+  profile: TravelProfile,
+  source: string,
+  onProgress?: TaskControl['onProgress']
+): GraphData {
+  const nodes = new Map<number, Coordinate>();
+  const graph = new Map<number, Edge[]>();
+
+  // Parse all elements in a single pass
+  const ways: { nodes: number[]; direction: WayDirection; speed: number }[] = [];
+  const wayInfo: WayInfo[] = [];
+  const wayIndex = new Map<number, number>();
+  const relations: OsmElement[] = [];
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    if (i % PROGRESS_EVERY === 0) onProgress?.({ stage: 'graph', done: i, total: elements.length });
+    if (el.type === 'node') {
+      nodes.set(el.id, { lat: el.lat!, lng: el.lon! });
+    } else if (el.type === 'way') {
+      const tags = el.tags ?? {};
+      if (!el.nodes || !isWayAllowed(profile, tags)) continue;
+      const direction = wayDirection(profile, tags);
+      if (direction === 'none') continue;
+      wayIndex.set(el.id, ways.length);
+      const speedKmh = tags.route === 'ferry' && !tags.highway ? FERRY_SPEED_KMH : profile.speedKmh(tags);
+      ways.push({ nodes: el.nodes, direction, speed: speedKmh / 3.6 });
+      wayInfo.push({ id: el.id, name: tags.name || tags.ref || '', highway: tags.highway || '', avoid: avoidanceClasses(tags) });
+    } else if (el.type === 'relation') {
+      relations.push(el);
+    }
+  }
+  onProgress?.({ stage: 'graph', done: elements.length, total: elements.length });
+
+  // Build adjacency list
+  let maxSpeed = 0;
+  ways.forEach((way, w) => {
+    maxSpeed = Math.max(maxSpeed, way.speed);
+    for (let i = 0; i < way.nodes.length - 1; i++) {
+      const a = way.nodes[i], b = way.nodes[i + 1];
+      const ca = nodes.get(a), cb = nodes.get(b);
+      if (!ca || !cb) continue;
+      const d = haversineDistance(ca, cb);
+      const t = d / way.speed;
+      if (way.direction !== 'backward') {
+        if (!graph.has(a)) graph.set(a, []);
+        graph.get(a)!.push({ to: b, length: d, time: t, way: w });
+      }
+      if (way.direction !== 'forward') {
+        if (!graph.has(b)) graph.set(b, []);
+        graph.get(b)!.push({ to: a, length: d, time: t, way: w });
+      }
+    }
+  });
+
+  return {
+    nodes,
+    graph,
+    ways: wayInfo,
+    restrictions: parseRestrictions(relations, profile, wayIndex),
+    maxSpeed,
+    source,
+  };
+}
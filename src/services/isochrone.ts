@@ -0,0 +1,252 @@
+import type { Coordinate } from './routing';
+import type { ProfileId } from './profiles';
+import { DEG_TO_RAD } from './geo';
+
+export type IsochroneMetric = 'time' | 'distance';
+
+// [lat, lng] rings; the first ring of a polygon is its outline, the rest are holes
+export type PolygonRings = [number, number][][];
+
+export interface Isochrone {
+  budget: number; // seconds or meters, depending on the metric
+  polygons: PolygonRings[];
+}
+
+export interface IsochroneResult {
+  origin: Coordinate; // snapped onto the road network
+  metric: IsochroneMetric;
+  profile: ProfileId;
+  isochrones: Isochrone[]; // ascending budget
+  clipped: boolean; // the budget reaches past the road data that was loaded
+}
+
+// Band fills on the map and in the legend, innermost band first
+export const ISOCHRONE_COLORS = ['#22c55e', '#a3e635', '#facc15', '#fb923c', '#f43f5e'];
+export const MAX_ISOCHRONE_BANDS = ISOCHRONE_COLORS.length;
+
+// A point somewhere on the network and the cost of reaching it
+export interface ReachSample {
+  lat: number;
+  lng: number;
+  cost: number;
+}
+
+// ============================================================
+// GRID CONTOURS
+// ============================================================
+const M_PER_DEG_LAT = 110540;
+const M_PER_DEG_LNG = 111320; // at the equator
+const MIN_CELL_M = 40;
+const CELLS_ACROSS = 160; // cell size adapts so the grid stays about this wide
+const SMOOTHING_PASSES = 2;
+
+/**
+ * Raster of the cheapest cost per cell. Every cell takes the lowest sample
+ * cost in it or its eight neighbours, so a band reaches a little way off
+ * the roads on either side instead of tracing them as thin lines.
+ */
+class CostGrid {
+  width: number;
+  height: number;
+  private minLat: number;
+  private minLng: number;
+  private cellLat: number;
+  private cellLng: number;
+  private cost: Float64Array;
+
+  constructor(samples: ReachSample[]) {
+    let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+    for (const s of samples) {
+      minLat = Math.min(minLat, s.lat);
+      maxLat = Math.max(maxLat, s.lat);
+      minLng = Math.min(minLng, s.lng);
+      maxLng = Math.max(maxLng, s.lng);
+    }
+
+    const kx = M_PER_DEG_LNG * Math.cos(((minLat + maxLat) / 2) * DEG_TO_RAD);
+    const extent = Math.max((maxLat - minLat) * M_PER_DEG_LAT, (maxLng - minLng) * kx);
+    const cell = Math.max(MIN_CELL_M, extent / CELLS_ACROSS);
+    this.cellLat = cell / M_PER_DEG_LAT;
+    this.cellLng = cell / kx;
+
+    // Two spare cells on every side keep dilated bands off the edge
+    this.minLat = minLat - 2 * this.cellLat;
+    this.minLng = minLng - 2 * this.cellLng;
+    this.width = Math.ceil((maxLng - this.minLng) / this.cellLng) + 3;
+    this.height = Math.ceil((maxLat - this.minLat) / this.cellLat) + 3;
+
+    const raw = new Float64Array(this.width * this.height).fill(Infinity);
+    for (const s of samples) {
+      const i = this.index(Math.floor((s.lng - this.minLng) / this.cellLng), Math.floor((s.lat - this.minLat) / this.cellLat));
+      if (s.cost < raw[i]) raw[i] = s.cost;
+    }
+
+    this.cost = new Float64Array(raw.length).fill(Infinity);
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        let best = Infinity;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) best = Math.min(best, raw[this.index(x + dx, y + dy)]);
+        }
+        this.cost[this.index(x, y)] = best;
+      }
+    }
+  }
+
+  private index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  within(x: number, y: number, budget: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height && this.cost[this.index(x, y)] <= budget;
+  }
+
+  // Grid corner (x, y) as [lat, lng]
+  corner(x: number, y: number): [number, number] {
+    return [this.minLat + y * this.cellLat, this.minLng + x * this.cellLng];
+  }
+}
+
+const cornerKey = (x: number, y: number) => x * 1e6 + y;
+
+/**
+ * Outlines of the cells within budget. Each cell contributes the sides it
+ * does not share with another filled cell, directed counter-clockwise around
+ * it, so the sides chain into counter-clockwise outlines and clockwise holes.
+ */
+function traceRings(grid: CostGrid, budget: number): [number, number][][] {
+  const outgoing = new Map<number, [number, number][]>(); // corner → ends of the sides leaving it
+  const addSide = (x0: number, y0: number, x1: number, y1: number) => {
+    const key = cornerKey(x0, y0);
+    const ends = outgoing.get(key);
+    if (ends) ends.push([x1, y1]);
+    else outgoing.set(key, [[x1, y1]]);
+  };
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!grid.within(x, y, budget)) continue;
+      if (!grid.within(x, y - 1, budget)) addSide(x, y, x + 1, y);
+      if (!grid.within(x + 1, y, budget)) addSide(x + 1, y, x + 1, y + 1);
+      if (!grid.within(x, y + 1, budget)) addSide(x + 1, y + 1, x, y + 1);
+      if (!grid.within(x - 1, y, budget)) addSide(x, y + 1, x, y);
+    }
+  }
+
+  const rings: [number, number][][] = [];
+  for (const [startKey, starts] of outgoing) {
+    while (starts.length > 0) {
+      const sx = Math.floor(startKey / 1e6), sy = startKey - sx * 1e6;
+      const ring: [number, number][] = [[sx, sy]];
+      let [px, py] = [sx, sy];
+      let [cx, cy] = starts.pop()!;
+
+      while (cx !== sx || cy !== sy) {
+        ring.push([cx, cy]);
+        const ends = outgoing.get(cornerKey(cx, cy))!;
+        // Two cells meeting only at this corner: turn left, keeping them apart
+        let pick = 0;
+        if (ends.length > 1) {
+          const leftOf = (dx: number, dy: number) => (cx - px) * dy - (cy - py) * dx;
+          pick = ends.findIndex(([nx, ny]) => leftOf(nx - cx, ny - cy) > 0);
+          if (pick < 0) pick = 0;
+        }
+        [px, py] = [cx, cy];
+        [cx, cy] = ends.splice(pick, 1)[0];
+      }
+      rings.push(ring);
+    }
+  }
+
+  return rings.map(ring => dropStraightCorners(ring).map(([x, y]) => grid.corner(x, y)));
+}
+
+function dropStraightCorners(ring: [number, number][]): [number, number][] {
+  return ring.filter((p, i) => {
+    const a = ring[(i + ring.length - 1) % ring.length], b = ring[(i + 1) % ring.length];
+    return (p[0] - a[0]) * (b[1] - p[1]) !== (p[1] - a[1]) * (b[0] - p[0]);
+  });
+}
+
+// Twice the signed area with lng as x and lat as y; positive = counter-clockwise
+function signedArea(ring: [number, number][]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][1] - ring[i][1]) * (ring[j][0] + ring[i][0]);
+  }
+  return area;
+}
+
+function insideRing([lat, lng]: [number, number], ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [yi, xi] = ring[i], [yj, xj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Chaikin corner cutting; takes the edge off the grid staircase
+function smooth(ring: [number, number][]): [number, number][] {
+  const out: [number, number][] = [];
+  ring.forEach((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    out.push([0.75 * p[0] + 0.25 * q[0], 0.75 * p[1] + 0.25 * q[1]]);
+    out.push([0.25 * p[0] + 0.75 * q[0], 0.25 * p[1] + 0.75 * q[1]]);
+  });
+  return out;
+}
+
+/**
+ * Turns reach samples into one set of polygons per budget. Each hole goes to
+ * the smallest outline around it, since bands can contain islands inside
+ * their holes.
+ */
+export function contourIsochrones(samples: ReachSample[], budgets: number[]): Isochrone[] {
+  if (samples.length === 0) return [];
+  const grid = new CostGrid(samples);
+
+  return [...budgets].sort((a, b) => a - b).map(budget => {
+    const rings = traceRings(grid, budget);
+    const outlines = rings.filter(r => signedArea(r) > 0).sort((a, b) => signedArea(a) - signedArea(b));
+    const polygons: PolygonRings[] = outlines.map(outline => [outline]);
+
+    for (const hole of rings.filter(r => signedArea(r) < 0)) {
+      const owner = outlines.findIndex(outline => insideRing(hole[0], outline));
+      if (owner >= 0) polygons[owner].push(hole);
+    }
+
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      for (const polygon of polygons) polygon.forEach((ring, i) => (polygon[i] = smooth(ring)));
+    }
+    return { budget, polygons };
+  });
+}
+
+// ============================================================
+// GEOJSON EXPORT
+// ============================================================
+/**
+ * One MultiPolygon feature per band, largest first so the bands stack
+ * sensibly in other viewers. Coordinates are [lng, lat] with closed rings.
+ */
+export function isochronesToGeoJSON({ origin, metric, profile, isochrones }: IsochroneResult): string {
+  const features = [...isochrones].reverse().map(({ budget, polygons }) => ({
+    type: 'Feature',
+    properties: { metric, profile, budget, unit: metric === 'time' ? 's' : 'm' },
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: polygons.map(rings =>
+        rings.map(ring => [...ring, ring[0]].map(([lat, lng]) => [+lng.toFixed(6), +lat.toFixed(6)]))
+      ),
+    },
+  }));
+
+  const start = {
+    type: 'Feature',
+    properties: { role: 'origin' },
+    geometry: { type: 'Point', coordinates: [+origin.lng.toFixed(6), +origin.lat.toFixed(6)] },
+  };
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [...features, start] }, null, 2);
+}
@@ -0,0 +1,18 @@
+// ============================================================
+// LOGGING
+// ============================================================
+/**
+ * Where the routing core reports what it is doing. The browser keeps the
+ * console; headless callers can quiet it or move it off stdout.
+ */
+export interface Logger {
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export let log: Logger = console;
+
+export function setLogger(logger: Logger) {
+  log = logger;
+}
@@ -0,0 +1,143 @@
+import type { Coordinate, CostMatrix, EngineId, Objective } from './routing';
+import type { ProfileId } from './profiles';
+
+// ============================================================
+// TYPES
+// ============================================================
+// One row of an uploaded location list: coordinates given, or an address to geocode
+export interface MatrixLocation {
+  name: string;
+  coordinate: Coordinate | null;
+  address: string;
+}
+
+export type LocatedPlace = Coordinate & { name: string };
+
+export interface MatrixResult extends CostMatrix {
+  sources: LocatedPlace[]; // rows
+  destinations: LocatedPlace[]; // columns
+  engine: EngineId;
+  profile: ProfileId;
+  objective: Objective;
+}
+
+export const MAX_MATRIX_LOCATIONS = 200; // per side
+
+// ============================================================
+// CSV PARSING
+// ============================================================
+// The delimiter that splits the header line into the most fields
+function sniffDelimiter(line: string): string {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: line.split(d).length }));
+  return counts.reduce((a, b) => (b.n > a.n ? b : a)).d;
+}
+
+/**
+ * RFC 4180 fields: quoted fields may hold delimiters, newlines and doubled
+ * quotes. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = sniffDelimiter(source.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(f => f.trim())) rows.push(row.map(f => f.trim()));
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') field += source[i++];
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && !field.trim()) {
+      quoted = true;
+      field = '';
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) endRow();
+  return rows;
+}
+
+const COLUMNS = {
+  name: ['name', 'label', 'title', 'id', 'place', 'location'],
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+  address: ['address', 'addr', 'query', 'street'],
+};
+
+const isNumber = (value: string | undefined) => value !== undefined && value !== '' && Number.isFinite(Number(value));
+
+/**
+ * Locations from a CSV. With a header, columns are found by name (name,
+ * lat/lng, address and the usual variants); without one, rows are read as
+ * `name, lat, lng`, `lat, lng` or `name, address`.
+ */
+export function parseLocationsCsv(text: string): MatrixLocation[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) throw new Error('The file is empty');
+
+  const header = rows[0].map(h => h.toLowerCase());
+  const find = (aliases: string[]) => aliases.map(a => header.indexOf(a)).find(i => i >= 0) ?? -1; // earlier aliases win
+  let col = { name: find(COLUMNS.name), lat: find(COLUMNS.lat), lng: find(COLUMNS.lng), address: find(COLUMNS.address) };
+  const hasHeader = (col.lat >= 0 && col.lng >= 0) || col.address >= 0;
+
+  if (!hasHeader) {
+    const [a, b, c] = rows[0];
+    if (isNumber(a) && isNumber(b)) col = { name: -1, lat: 0, lng: 1, address: -1 };
+    else if (isNumber(b) && isNumber(c)) col = { name: 0, lat: 1, lng: 2, address: -1 };
+    else col = { name: rows[0].length > 1 ? 0 : -1, lat: -1, lng: -1, address: rows[0].length > 1 ? 1 : 0 };
+  }
+
+  const locations = (hasHeader ? rows.slice(1) : rows).map((row, i): MatrixLocation => {
+    const lat = Number(row[col.lat]), lng = Number(row[col.lng]);
+    const located = isNumber(row[col.lat]) && isNumber(row[col.lng]) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+    const address = row[col.address] ?? '';
+    return {
+      name: row[col.name] || address || (located ? `${lat.toFixed(5)}, ${lng.toFixed(5)}` : `Location ${i + 1}`),
+      coordinate: located ? { lat, lng } : null,
+      address,
+    };
+  }).filter(l => l.coordinate || l.address);
+
+  if (locations.length === 0) throw new Error('No rows with coordinates or an address were found');
+  if (locations.length > MAX_MATRIX_LOCATIONS) throw new Error(`At most ${MAX_MATRIX_LOCATIONS} locations per side are supported`);
+  return locations;
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+const csvField = (text: string) => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+/**
+ * One line per origin–destination pair, which spreadsheets and scripts read
+ * more easily than a grid. Unreachable pairs have empty distance and duration.
+ */
+export function matrixToCsv({ sources, destinations, distances, durations }: MatrixResult): string {
+  const lines = [['origin', 'origin_lat', 'origin_lng', 'destination', 'destination_lat', 'destination_lng', 'distance_m', 'duration_s']];
+  sources.forEach((s, i) => destinations.forEach((d, j) => {
+    const distance = distances[i][j], duration = durations[i][j];
+    lines.push([
+      s.name, s.lat.toFixed(6), s.lng.toFixed(6),
+      d.name, d.lat.toFixed(6), d.lng.toFixed(6),
+      distance === null ? '' : distance.toFixed(1), duration === null ? '' : duration.toFixed(1),
+    ]);
+  }));
+  return lines.map(line => line.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export const matrixToJson = (result: MatrixResult) => JSON.stringify(result, null, 2);
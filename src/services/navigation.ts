@@ -0,0 +1,239 @@
+import { routeLines } from './routing';
+import type { Coordinate, RouteData } from './routing';
+import { DEG_TO_RAD, haversineDistance } from './geo';
+
+export interface PositionFix {
+  lat: number;
+  lng: number;
+  accuracy: number | null; // meters, when the source knows
+  timestamp: number;
+}
+
+// Where the traveller is on the active route
+export interface NavProgress {
+  fix: PositionFix;
+  position: Coordinate; // the fix snapped onto the route, or the fix itself while off-route
+  offRoute: number; // meters between the fix and the route
+  travelled: number; // meters along the route
+  remainingDistance: number;
+  remainingDuration: number; // seconds, at the route's own pace
+  step: number; // index into route.steps of the next maneuver
+  toManeuver: number; // meters until it
+  nextWaypoint: number; // first waypoint not yet reached
+  passed: [number, number][]; // route geometry already travelled, [lat, lng]
+  reroute: boolean; // off the route for long enough to need a new one
+  arrived: boolean;
+}
+
+const OFF_ROUTE_M = 40; // or the fix's accuracy, if that is worse
+const OFF_ROUTE_FIXES = 3; // consecutive fixes off the route before re-routing
+const LOOK_BACK_M = 30; // GPS jitter can put a fix slightly behind the last one
+const LOOK_AHEAD_M = 1000; // and a slow fix rate far ahead of it
+const ARRIVED_M = 25;
+
+const toCoordinate = ([lat, lng]: [number, number]): Coordinate => ({ lat, lng });
+
+// ============================================================
+// ROUTE TRACKER
+// ============================================================
+/**
+ * Follows one route fix by fix. Fixes are matched to the stretch just ahead
+ * of the last one first, so a route that doubles back on itself does not
+ * make the position jump; only when nothing there is close is the whole
+ * route searched.
+ */
+export class RouteTracker {
+  private route: RouteData;
+  private line: [number, number][];
+  private along: number[]; // meters from the start to each vertex of `line`
+  private stepStarts: number[]; // meters from the start to each step's maneuver
+  private legEnds: number[]; // meters from the start to each waypoint after the first
+  private travelled = 0;
+  private offFixes = 0;
+
+  constructor(route: RouteData) {
+    this.route = route;
+    this.line = [];
+    this.stepStarts = [];
+    for (const part of routeLines(route)) {
+      this.stepStarts.push(this.line.length);
+      // Steps share their joining vertex
+      this.line.push(...(this.line.length > 0 ? part.slice(1) : part));
+    }
+
+    this.along = [0];
+    for (let i = 1; i < this.line.length; i++) {
+      this.along.push(this.along[i - 1] + haversineDistance(toCoordinate(this.line[i - 1]), toCoordinate(this.line[i])));
+    }
+    this.stepStarts = this.stepStarts.map(v => this.along[Math.max(0, v - 1)]);
+
+    // Engines measure legs their own way; scale them onto this line
+    const total = this.length;
+    const scale = route.distance > 0 ? total / route.distance : 0;
+    let sum = 0;
+    this.legEnds = route.legs.map(leg => (sum += leg.distance * scale));
+  }
+
+  get length(): number {
+    return this.along[this.along.length - 1] ?? 0;
+  }
+
+  update(fix: PositionFix): NavProgress {
+    const near = this.nearest(fix, this.travelled - LOOK_BACK_M, this.travelled + LOOK_AHEAD_M);
+    const threshold = Math.max(OFF_ROUTE_M, fix.accuracy ?? 0);
+    const hit = near && near.distance <= threshold ? near : this.nearest(fix, 0, Infinity);
+    const onRoute = hit !== null && hit.distance <= threshold;
+
+    this.offFixes = onRoute ? 0 : this.offFixes + 1;
+    if (onRoute) this.travelled = hit.along;
+
+    const step = this.stepStarts.findIndex(start => start > this.travelled + 1);
+    const next = step < 0 ? this.stepStarts.length - 1 : step;
+    const remainingDistance = Math.max(0, this.length - this.travelled);
+
+    return {
+      fix,
+      position: onRoute ? hit.point : { lat: fix.lat, lng: fix.lng },
+      offRoute: hit?.distance ?? Infinity,
+      travelled: this.travelled,
+      remainingDistance,
+      remainingDuration: this.remainingDuration(),
+      step: next,
+      toManeuver: step < 0 ? remainingDistance : this.stepStarts[step] - this.travelled,
+      nextWaypoint: 1 + this.legEnds.filter(end => end <= this.travelled + ARRIVED_M).length,
+      passed: this.passedLine(),
+      reroute: this.offFixes >= OFF_ROUTE_FIXES,
+      arrived: onRoute && remainingDistance <= ARRIVED_M,
+    };
+  }
+
+  // Closest point on the line among segments starting between `from` and `to` meters along it
+  private nearest(p: Coordinate, from: number, to: number) {
+    const kx = 111320 * Math.cos(p.lat * DEG_TO_RAD), ky = 110540;
+    let best: { point: Coordinate; along: number; distance: number } | null = null;
+
+    for (let i = 0; i < this.line.length - 1; i++) {
+      if (this.along[i + 1] < from) continue;
+      if (this.along[i] > to) break;
+      const [lat0, lng0] = this.line[i], [lat1, lng1] = this.line[i + 1];
+      const ax = (lng0 - p.lng) * kx, ay = (lat0 - p.lat) * ky;
+      const dx = (lng1 - lng0) * kx, dy = (lat1 - lat0) * ky;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / len2)) : 0;
+      const distance = Math.hypot(ax + t * dx, ay + t * dy);
+      if (best && distance >= best.distance) continue;
+      best = {
+        point: { lat: lat0 + t * (lat1 - lat0), lng: lng0 + t * (lng1 - lng0) },
+        along: this.along[i] + t * (this.along[i + 1] - this.along[i]),
+        distance,
+      };
+    }
+    return best;
+  }
+
+  // Time left on the current step by share of its length, plus every later step
+  private remainingDuration(): number {
+    const { steps, duration } = this.route;
+    if (steps.length === 0) return this.length > 0 ? duration * (1 - this.travelled / this.length) : 0;
+    let seconds = 0;
+    steps.forEach((step, i) => {
+      const start = this.stepStarts[i], end = this.stepStarts[i + 1] ?? this.length;
+      if (end <= this.travelled) return;
+      const share = end > start ? Math.min(1, (end - this.travelled) / (end - start)) : 1;
+      seconds += step.duration * share;
+    });
+    return seconds;
+  }
+
+  private passedLine(): [number, number][] {
+    const i = this.along.findIndex(d => d > this.travelled);
+    if (i <= 0) return i === 0 ? [] : this.line;
+    const t = (this.travelled - this.along[i - 1]) / (this.along[i] - this.along[i - 1] || 1);
+    const [lat0, lng0] = this.line[i - 1], [lat1, lng1] = this.line[i];
+    return [...this.line.slice(0, i), [lat0 + t * (lat1 - lat0), lng0 + t * (lng1 - lng0)]];
+  }
+}
+
+// ============================================================
+// POSITION SOURCES
+// ============================================================
+/**
+ * Something that produces fixes until stopped: the device's GPS, or a
+ * recorded track replayed for testing. `start` returns the stop function.
+ */
+export interface PositionSource {
+  start(onFix: (fix: PositionFix) => void, onError: (message: string) => void): () => void;
+}
+
+export const gpsSource: PositionSource = {
+  start: (onFix, onError) => {
+    if (!navigator.geolocation) {
+      onError('Geolocation is not supported by your browser.');
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      pos => onFix({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy, timestamp: pos.timestamp }),
+      error => onError(error.code === error.PERMISSION_DENIED ? 'Location access was denied.' : 'Unable to get your location.'),
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 10000 }
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+};
+
+const REPLAY_TICK_MS = 1000;
+
+/**
+ * Drives along a line at `metersPerSecond` × `speed`, one fix per second.
+ * The speed may be changed while it runs.
+ */
+export class TrackReplay implements PositionSource {
+  private speed: number;
+  private line: [number, number][];
+  private metersPerSecond: number;
+
+  constructor(line: [number, number][], metersPerSecond: number, speed = 1) {
+    this.line = line;
+    this.metersPerSecond = metersPerSecond;
+    this.speed = speed;
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  start(onFix: (fix: PositionFix) => void, onError: (message: string) => void): () => void {
+    if (this.line.length < 2) {
+      onError('There is no track to replay.');
+      return () => {};
+    }
+    let segment = 0, offset = 0; // meters into the current segment
+
+    const tick = () => {
+      let budget = this.metersPerSecond * this.speed * (REPLAY_TICK_MS / 1000);
+      while (segment < this.line.length - 1) {
+        const length = haversineDistance(toCoordinate(this.line[segment]), toCoordinate(this.line[segment + 1]));
+        if (offset + budget < length) {
+          offset += budget;
+          break;
+        }
+        budget -= length - offset;
+        segment++;
+        offset = 0;
+      }
+      if (segment >= this.line.length - 1) {
+        const [lat, lng] = this.line[this.line.length - 1];
+        onFix({ lat, lng, accuracy: 5, timestamp: Date.now() });
+        clearInterval(timer);
+        return;
+      }
+      const [lat0, lng0] = this.line[segment], [lat1, lng1] = this.line[segment + 1];
+      const t = offset / (haversineDistance({ lat: lat0, lng: lng0 }, { lat: lat1, lng: lng1 }) || 1);
+      onFix({ lat: lat0 + t * (lat1 - lat0), lng: lng0 + t * (lng1 - lng0), accuracy: 5, timestamp: Date.now() });
+    };
+
+    const [lat, lng] = this.line[0];
+    onFix({ lat, lng, accuracy: 5, timestamp: Date.now() });
+    const timer = setInterval(tick, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+  }
+}
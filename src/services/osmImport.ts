@@ -0,0 +1,445 @@
+import type { OsmElement, OsmMember } from './graph';
+import { allHighwaysFilter } from './profiles';
+import type { TaskControl } from './routing';
+import type { TileBounds } from './tileCache';
+import type { GeocodeResult } from './geocoding';
+import { log } from './log';
+
+/**
+ * A road network loaded from a local file. While one is active, the local
+ * engine routes on it instead of fetching tiles from Overpass.
+ */
+export interface OfflineNetwork {
+  name: string;
+  format: 'osm-xml' | 'overpass-json' | 'pbf';
+  elements: OsmElement[];
+  bounds: TileBounds;
+  stats: { nodes: number; ways: number; restrictions: number };
+  places: GeocodeResult[]; // named streets and places, for searching offline
+}
+
+// What the UI needs to know about a loaded network; the elements stay put
+export type OfflineNetworkInfo = Omit<OfflineNetwork, 'elements'>;
+
+// ============================================================
+// OSM XML
+// ============================================================
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(n);
+    }
+    return ENTITIES[code] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = decodeEntities(m[2] ?? m[3]);
+  }
+  return attrs;
+}
+
+/**
+ * Minimal tag scanner for the flat structure of .osm files. No DOM needed,
+ * so it also runs outside the browser and copes with large extracts.
+ */
+export function parseOsmXml(text: string): OsmElement[] {
+  const elements: OsmElement[] = [];
+  let current: OsmElement | null = null;
+
+  for (const m of text.matchAll(/<(\/?)(node|way|relation|nd|tag|member)\b([^>]*?)(\/?)>/g)) {
+    const [, closing, name, attrSource, selfClosing] = m;
+
+    if (closing) {
+      if (current && name === current.type) current = null;
+      continue;
+    }
+
+    const attrs = parseAttributes(attrSource);
+    if (name === 'node' || name === 'way' || name === 'relation') {
+      const el: OsmElement = { type: name, id: Number(attrs.id) };
+      if (name === 'node') {
+        el.lat = Number(attrs.lat);
+        el.lon = Number(attrs.lon);
+      }
+      elements.push(el);
+      current = selfClosing ? null : el;
+    } else if (current) {
+      if (name === 'tag') {
+        (current.tags ??= {})[attrs.k] = attrs.v;
+      } else if (name === 'nd') {
+        (current.nodes ??= []).push(Number(attrs.ref));
+      } else if (name === 'member') {
+        (current.members ??= []).push({ type: attrs.type as OsmMember['type'], ref: Number(attrs.ref), role: attrs.role ?? '' });
+      }
+    }
+  }
+
+  return elements;
+}
+
+// ============================================================
+// OVERPASS JSON
+// ============================================================
+export function parseOverpassJson(text: string): OsmElement[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data?.elements)) throw new Error('Not an Overpass JSON response (missing "elements")');
+  return data.elements as OsmElement[];
+}
+
+// ============================================================
+// OSM PBF (protobuf + zlib)
+// ============================================================
+// Just enough protobuf to walk the OSM PBF messages. Varints are decoded with
+// arithmetic rather than bit ops because OSM ids no longer fit in 32 bits.
+class ProtoReader {
+  private buf: Uint8Array;
+  pos: number;
+  end: number;
+
+  constructor(buf: Uint8Array, start = 0, end = buf.length) {
+    this.buf = buf;
+    this.pos = start;
+    this.end = end;
+  }
+
+  get done() { return this.pos >= this.end; }
+
+  varint(): number {
+    let result = 0, mul = 1, b: number;
+    do {
+      b = this.buf[this.pos++];
+      result += (b & 0x7f) * mul;
+      mul *= 128;
+    } while (b & 0x80);
+    return result;
+  }
+
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+  }
+
+  bytes(): Uint8Array {
+    const len = this.varint();
+    const out = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  // Reader over a length-delimited field (sub-message or packed array)
+  sub(): ProtoReader {
+    const len = this.varint();
+    const r = new ProtoReader(this.buf, this.pos, this.pos + len);
+    this.pos += len;
+    return r;
+  }
+
+  skip(wireType: number) {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.pos += this.varint();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+
+  // Iterates fields as [fieldNumber, wireType]
+  *fields(): Generator<[number, number]> {
+    while (!this.done) {
+      const key = this.varint();
+      yield [Math.floor(key / 8), key % 8];
+    }
+  }
+
+  packed(read: (r: ProtoReader) => number): number[] {
+    const r = this.sub();
+    const out: number[] = [];
+    while (!r.done) out.push(read(r));
+    return out;
+  }
+}
+
+const uvarint = (r: ProtoReader) => r.varint();
+const svarint = (r: ProtoReader) => r.svarint();
+
+// Running sum over delta-coded arrays
+function undelta(values: number[]): number[] {
+  let acc = 0;
+  return values.map(v => (acc += v));
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readBlob(r: ProtoReader): Promise<Uint8Array> {
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) return r.bytes(); // raw
+    if (field === 3) return inflate(r.bytes()); // zlib_data
+    if (field === 4 || field === 6 || field === 7) throw new Error('Only zlib-compressed PBF blobs are supported');
+    r.skip(wire);
+  }
+  throw new Error('Empty PBF blob');
+}
+
+function readTags(keys: number[], vals: number[], strings: string[]): Record<string, string> | undefined {
+  if (keys.length === 0) return undefined;
+  const tags: Record<string, string> = {};
+  keys.forEach((k, i) => { tags[strings[k]] = strings[vals[i]]; });
+  return tags;
+}
+
+const MEMBER_TYPES: OsmMember['type'][] = ['node', 'way', 'relation'];
+
+function readPrimitiveBlock(data: Uint8Array, out: OsmElement[]) {
+  const block = new ProtoReader(data);
+  let strings: string[] = [];
+  const groups: ProtoReader[] = [];
+  let granularity = 100, latOffset = 0, lonOffset = 0;
+  const decoder = new TextDecoder();
+
+  for (const [field, wire] of block.fields()) {
+    if (field === 1) {
+      const st = block.sub();
+      strings = [];
+      for (const [f, w] of st.fields()) {
+        if (f === 1) strings.push(decoder.decode(st.bytes()));
+        else st.skip(w);
+      }
+    } else if (field === 2) groups.push(block.sub());
+    else if (field === 17) granularity = block.varint();
+    else if (field === 19) latOffset = block.varint();
+    else if (field === 20) lonOffset = block.varint();
+    else block.skip(wire);
+  }
+
+  const coord = (raw: number, offset: number) => 1e-9 * (offset + granularity * raw);
+
+  for (const group of groups) {
+    for (const [field, wire] of group.fields()) {
+      if (field === 1) {
+        // Plain Node
+        const n = group.sub();
+        let id = 0, lat = 0, lon = 0, keys: number[] = [], vals: number[] = [];
+        for (const [f, w] of n.fields()) {
+          if (f === 1) id = n.svarint();
+          else if (f === 2) keys = n.packed(uvarint);
+          else if (f === 3) vals = n.packed(uvarint);
+          else if (f === 8) lat = n.svarint();
+          else if (f === 9) lon = n.svarint();
+          else n.skip(w);
+        }
+        out.push({ type: 'node', id, lat: coord(lat, latOffset), lon: coord(lon, lonOffset), tags: readTags(keys, vals, strings) });
+      } else if (field === 2) {
+        // DenseNodes — tags are skipped, the graph never reads node tags (so the gazetteer only gets street names from PBF)
+        const d = group.sub();
+        let ids: number[] = [], lats: number[] = [], lons: number[] = [];
+        for (const [f, w] of d.fields()) {
+          if (f === 1) ids = undelta(d.packed(svarint));
+          else if (f === 8) lats = undelta(d.packed(svarint));
+          else if (f === 9) lons = undelta(d.packed(svarint));
+          else d.skip(w);
+        }
+        ids.forEach((id, i) => out.push({ type: 'node', id, lat: coord(lats[i], latOffset), lon: coord(lons[i], lonOffset) }));
+      } else if (field === 3) {
+        const w = group.sub();
+        let id = 0, keys: number[] = [], vals: number[] = [], refs: number[] = [];
+        for (const [f, wt] of w.fields()) {
+          if (f === 1) id = w.varint();
+          else if (f === 2) keys = w.packed(uvarint);
+          else if (f === 3) vals = w.packed(uvarint);
+          else if (f === 8) refs = undelta(w.packed(svarint));
+          else w.skip(wt);
+        }
+        out.push({ type: 'way', id, nodes: refs, tags: readTags(keys, vals, strings) });
+      } else if (field === 4) {
+        const rel = group.sub();
+        let id = 0, keys: number[] = [], vals: number[] = [], roles: number[] = [], memids: number[] = [], types: number[] = [];
+        for (const [f, wt] of rel.fields()) {
+          if (f === 1) id = rel.varint();
+          else if (f === 2) keys = rel.packed(uvarint);
+          else if (f === 3) vals = rel.packed(uvarint);
+          else if (f === 8) roles = rel.packed(uvarint);
+          else if (f === 9) memids = undelta(rel.packed(svarint));
+          else if (f === 10) types = rel.packed(uvarint);
+          else rel.skip(wt);
+        }
+        out.push({
+          type: 'relation',
+          id,
+          tags: readTags(keys, vals, strings),
+          members: memids.map((ref, i) => ({ type: MEMBER_TYPES[types[i]], ref, role: strings[roles[i]] })),
+        });
+      } else {
+        group.skip(wire);
+      }
+    }
+  }
+}
+
+export async function parsePbf(buffer: ArrayBuffer, { signal, onProgress }: TaskControl = {}): Promise<OsmElement[]> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const elements: OsmElement[] = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const headerLen = view.getInt32(pos);
+    pos += 4;
+
+    let type = '', dataSize = 0;
+    const header = new ProtoReader(bytes, pos, pos + headerLen);
+    for (const [field, wire] of header.fields()) {
+      if (field === 1) type = new TextDecoder().decode(header.bytes());
+      else if (field === 3) dataSize = header.varint();
+      else header.skip(wire);
+    }
+    pos += headerLen;
+
+    if (type === 'OSMData') {
+      readPrimitiveBlock(await readBlob(new ProtoReader(bytes, pos, pos + dataSize)), elements);
+    }
+    pos += dataSize;
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'import', done: pos, total: bytes.length });
+  }
+
+  return elements;
+}
+
+// ============================================================
+// ROAD SUBSET + IMPORT
+// ============================================================
+/**
+ * Keeps only what the graph builder needs: highway ways any profile could
+ * use, ferry routes, the nodes they reference, and turn-restriction relations.
+ */
+export function filterRoadElements(elements: OsmElement[]): OsmElement[] {
+  const highway = new RegExp(allHighwaysFilter());
+  const ways = elements.filter(el => el.type === 'way' && (highway.test(el.tags?.highway ?? '') || el.tags?.route === 'ferry'));
+  const used = new Set(ways.flatMap(w => w.nodes ?? []));
+  const nodes = elements.filter(el => el.type === 'node' && used.has(el.id));
+  const restrictions = elements.filter(el => el.type === 'relation' && el.tags?.type === 'restriction');
+  return [...nodes, ...ways, ...restrictions];
+}
+
+// ============================================================
+// GAZETTEER
+// ============================================================
+const LOCALITIES = new Set(['city', 'town', 'village', 'hamlet', 'suburb', 'quarter', 'neighbourhood']);
+const POI_KEYS = ['amenity', 'shop', 'tourism', 'leisure', 'historic', 'office', 'railway'];
+const STREET_CELL_DEG = 0.05; // same-named ways this close count as one street
+
+/**
+ * Searchable names from the full extract, before it is cut down to roads:
+ * named place and point-of-interest nodes, and one entry per street, placed
+ * at the middle of its longest way.
+ */
+export function extractPlaces(elements: OsmElement[]): GeocodeResult[] {
+  const coords = new Map<number, { lat: number; lng: number }>();
+  const places: GeocodeResult[] = [];
+  const highway = new RegExp(allHighwaysFilter());
+
+  for (const el of elements) {
+    if (el.type !== 'node' || el.lat === undefined || el.lon === undefined) continue;
+    coords.set(el.id, { lat: el.lat, lng: el.lon });
+    const tags = el.tags ?? {};
+    if (!tags.name || !(LOCALITIES.has(tags.place) || POI_KEYS.some(k => tags[k]))) continue;
+    const town = tags['addr:city'];
+    places.push({
+      name: tags.name,
+      label: [tags.name, town].filter(Boolean).join(', '),
+      detail: [tags['addr:street'], town].filter(Boolean).join(', '),
+      coordinate: { lat: el.lat, lng: el.lon },
+      bbox: null,
+      type: LOCALITIES.has(tags.place) ? 'locality' : 'poi',
+      source: 'gazetteer',
+    });
+  }
+
+  const streets = new Map<string, { lat: number; lng: number }[][]>();
+  for (const el of elements) {
+    const name = el.tags?.name;
+    if (el.type !== 'way' || !name || !highway.test(el.tags?.highway ?? '')) continue;
+    const points = (el.nodes ?? []).map(id => coords.get(id)).filter(p => p !== undefined);
+    if (points.length === 0) continue;
+    const key = `${name}|${Math.round(points[0].lat / STREET_CELL_DEG)}|${Math.round(points[0].lng / STREET_CELL_DEG)}`;
+    streets.set(key, [...(streets.get(key) ?? []), points]);
+  }
+
+  for (const [key, ways] of streets) {
+    const name = key.split('|')[0];
+    const longest = ways.reduce((a, b) => (b.length > a.length ? b : a));
+    const all = ways.flat();
+    places.push({
+      name,
+      label: name,
+      detail: '',
+      coordinate: longest[Math.floor(longest.length / 2)],
+      bbox: {
+        minLat: Math.min(...all.map(p => p.lat)),
+        maxLat: Math.max(...all.map(p => p.lat)),
+        minLon: Math.min(...all.map(p => p.lng)),
+        maxLon: Math.max(...all.map(p => p.lng)),
+      },
+      type: 'street',
+      source: 'gazetteer',
+    });
+  }
+
+  return places;
+}
+
+function detectFormat(name: string, head: Uint8Array): OfflineNetwork['format'] {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.pbf')) return 'pbf';
+  if (lower.endsWith('.json') || lower.endsWith('.geojson')) return 'overpass-json';
+  if (lower.endsWith('.osm') || lower.endsWith('.xml')) return 'osm-xml';
+
+  // Unknown extension: sniff the first non-blank character
+  const first = new TextDecoder().decode(head).trimStart()[0];
+  if (first === '{') return 'overpass-json';
+  if (first === '<') return 'osm-xml';
+  return 'pbf';
+}
+
+export async function importOsmFile(file: File, control: TaskControl = {}): Promise<OfflineNetwork> {
+  const t0 = performance.now();
+  const buffer = await file.arrayBuffer();
+  const format = detectFormat(file.name, new Uint8Array(buffer, 0, Math.min(64, buffer.byteLength)));
+
+  let raw: OsmElement[];
+  if (format === 'pbf') raw = await parsePbf(buffer, control);
+  else {
+    const text = new TextDecoder().decode(buffer);
+    raw = format === 'overpass-json' ? parseOverpassJson(text) : parseOsmXml(text);
+  }
+
+  const places = extractPlaces(raw);
+  const elements = filterRoadElements(raw);
+  const nodes = elements.filter(el => el.type === 'node');
+  if (nodes.length === 0) throw new Error('The file contains no roads');
+
+  const lats = nodes.map(n => n.lat!), lons = nodes.map(n => n.lon!);
+  const bounds: TileBounds = {
+    minLat: lats.reduce((a, b) => Math.min(a, b)),
+    maxLat: lats.reduce((a, b) => Math.max(a, b)),
+    minLon: lons.reduce((a, b) => Math.min(a, b)),
+    maxLon: lons.reduce((a, b) => Math.max(a, b)),
+  };
+
+  const stats = {
+    nodes: nodes.length,
+    ways: elements.filter(el => el.type === 'way').length,
+    restrictions: elements.filter(el => el.type === 'relation').length,
+  };
+  log.info(`Imported ${file.name} (${format}) in ${((performance.now() - t0) / 1000).toFixed(1)}s — ${stats.ways} roads, ${stats.nodes} nodes`);
+
+  return { name: file.name, format, elements, bounds, stats, places };
+}
@@ -0,0 +1,121 @@
+import { waySpeedKmh } from './speeds';
+import type { Avoidance } from './routing';
+
+export type ProfileId = 'car' | 'bike' | 'foot';
+
+type Tags = Record<string, string>;
+
+/**
+ * Everything that differs between travel modes: which roads exist for them,
+ * who may use them, whether oneway applies, and how fast they are travelled.
+ */
+export interface TravelProfile {
+  id: ProfileId;
+  label: string;
+  osrmBase: string; // OSRM server that hosts this profile (route/table paths appended)
+  highways: string[]; // usable unless an access tag forbids it
+  conditionalHighways: string[]; // usable only when an access tag explicitly allows it
+  accessTags: string[]; // most specific first, e.g. bicycle → vehicle → access
+  onewayTags: string[] | null; // most specific first; null = oneway never applies
+  restrictionModes: string[] | null; // restriction:<mode> keys that bind us; null = turn restrictions never apply
+  snapAvoid: string[]; // highways a trip cannot start or end on, used only when nothing else is near
+  osrmExclude: Avoidance[]; // classes the profile's OSRM server accepts in `exclude=`
+  climbSeconds: number; // extra time per meter of ascent, for climb-aware routing
+  speedKmh(tags: Tags): number;
+}
+
+const DENIED = new Set(['no', 'private', 'agricultural', 'forestry', 'delivery']);
+const GRANTED = new Set(['yes', 'designated', 'permissive', 'destination', 'customers']);
+
+// Nearest-first lookup: the first access tag present on the way decides
+function accessValue(profile: TravelProfile, tags: Tags): string | undefined {
+  for (const key of profile.accessTags) {
+    if (tags[key] !== undefined) return tags[key];
+  }
+  return undefined;
+}
+
+export function isWayAllowed(profile: TravelProfile, tags: Tags): boolean {
+  const highway = tags.highway;
+  const access = accessValue(profile, tags);
+  if (access !== undefined && DENIED.has(access)) return false;
+  // Like OSRM, ferries carry everyone unless an access tag says otherwise
+  if (tags.route === 'ferry') return true;
+  if (!highway) return false;
+  if (profile.highways.includes(highway)) return true;
+  return profile.conditionalHighways.includes(highway) && access !== undefined && GRANTED.has(access);
+}
+
+// Raw oneway tag value that applies to this profile, if any
+export function onewayValue(profile: TravelProfile, tags: Tags): string | undefined {
+  if (!profile.onewayTags) return undefined;
+  for (const key of profile.onewayTags) {
+    if (tags[key] !== undefined) return tags[key];
+  }
+  return undefined;
+}
+
+// Overpass regex over every highway class any profile could ever use, so
+// one download serves every travel mode
+export function allHighwaysFilter(): string {
+  const all = new Set(Object.values(PROFILES).flatMap(p => [...p.highways, ...p.conditionalHighways]));
+  return `^(${[...all].join('|')})$`;
+}
+
+const BIKE_SLOW = new Set(['path', 'track', 'footway', 'pedestrian', 'bridleway']);
+
+export const PROFILES: Record<ProfileId, TravelProfile> = {
+  car: {
+    id: 'car',
+    label: 'Car',
+    osrmBase: 'https://router.project-osrm.org',
+    highways: [
+      'motorway', 'motorway_link', 'trunk', 'trunk_link', 'primary', 'primary_link',
+      'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified',
+      'residential', 'living_street', 'service',
+    ],
+    conditionalHighways: [],
+    accessTags: ['motorcar', 'motor_vehicle', 'vehicle', 'access'],
+    onewayTags: ['oneway'],
+    restrictionModes: ['motorcar', 'motor_vehicle', 'vehicle'],
+    snapAvoid: ['motorway', 'motorway_link', 'trunk_link'], // access-controlled, no driveways
+    osrmExclude: ['motorway', 'toll', 'ferry'],
+    climbSeconds: 0.5,
+    speedKmh: waySpeedKmh,
+  },
+  bike: {
+    id: 'bike',
+    label: 'Bike',
+    osrmBase: 'https://routing.openstreetmap.de/routed-bike',
+    highways: [
+      'primary', 'primary_link', 'secondary', 'secondary_link', 'tertiary', 'tertiary_link',
+      'unclassified', 'residential', 'living_street', 'service', 'cycleway', 'path', 'track',
+    ],
+    conditionalHighways: ['trunk', 'trunk_link', 'footway', 'pedestrian', 'bridleway'],
+    accessTags: ['bicycle', 'vehicle', 'access'],
+    onewayTags: ['oneway:bicycle', 'oneway'],
+    restrictionModes: ['bicycle', 'vehicle'],
+    snapAvoid: ['trunk_link'],
+    osrmExclude: [],
+    climbSeconds: 8,
+    speedKmh: tags => (BIKE_SLOW.has(tags.highway) ? 10 : 16),
+  },
+  foot: {
+    id: 'foot',
+    label: 'Foot',
+    osrmBase: 'https://routing.openstreetmap.de/routed-foot',
+    highways: [
+      'primary', 'primary_link', 'secondary', 'secondary_link', 'tertiary', 'tertiary_link',
+      'unclassified', 'residential', 'living_street', 'service', 'pedestrian', 'footway',
+      'path', 'track', 'steps', 'cycleway', 'bridleway',
+    ],
+    conditionalHighways: ['trunk', 'trunk_link'],
+    accessTags: ['foot', 'access'],
+    onewayTags: null, // pedestrians walk both ways
+    restrictionModes: null,
+    snapAvoid: [],
+    osrmExclude: [],
+    climbSeconds: 6, // Naismith: an hour per 600 m of ascent
+    speedKmh: tags => (tags.highway === 'steps' ? 2 : 5),
+  },
+};
@@ -0,0 +1,304 @@
+import type { Coordinate, RouteData } from './routing';
+import { decodeEntities } from './osmImport';
+import { DEG_TO_RAD, haversineDistance } from './geo';
+
+export type RouteFileFormat = 'gpx' | 'geojson' | 'kml';
+
+export const ROUTE_FILE_TYPES: Record<RouteFileFormat, { extension: string; mime: string; label: string }> = {
+  gpx: { extension: 'gpx', mime: 'application/gpx+xml', label: 'GPX' },
+  geojson: { extension: 'geojson', mime: 'application/geo+json', label: 'GeoJSON' },
+  kml: { extension: 'kml', mime: 'application/vnd.google-earth.kml+xml', label: 'KML' },
+};
+
+// A named point the route was asked to visit
+export interface RouteStop extends Coordinate {
+  name: string;
+}
+
+/**
+ * A route read back from a file. Only geometry and stops are guaranteed;
+ * distance falls back to the length of the line and duration to null when
+ * the file does not carry them.
+ */
+export interface ImportedTrack {
+  name: string;
+  format: RouteFileFormat;
+  geometry: [number, number][]; // [lat, lng]
+  stops: RouteStop[];
+  distance: number;
+  duration: number | null;
+}
+
+// Numbers are written with String(), the shortest text that parses back to the same double
+const xmlEscape = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[c]!);
+
+const lineLength = (geometry: [number, number][]) =>
+  geometry.reduce((sum, [lat, lng], i) => (i === 0 ? 0 : sum + haversineDistance({ lat: geometry[i - 1][0], lng: geometry[i - 1][1] }, { lat, lng })), 0);
+
+// ============================================================
+// EXPORT
+// ============================================================
+// GPX has no standard field for distance and duration, so they ride along as extensions in our own namespace
+const GPX_EXTENSIONS_NS = 'urn:cityroute:gpx:1';
+
+function toGpx(route: RouteData, stops: RouteStop[], name: string): string {
+  const rtepts = stops.map(s => `    <rtept lat="${s.lat}" lon="${s.lng}"><name>${xmlEscape(s.name)}</name></rtept>`);
+  const trkpts = route.geometry.map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"/>`);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="CityRoute" xmlns="http://www.topografix.com/GPX/1/1" xmlns:cr="${GPX_EXTENSIONS_NS}">`,
+    `  <metadata><name>${xmlEscape(name)}</name><desc>${xmlEscape(route.algorithm)}</desc></metadata>`,
+    `  <rte>`,
+    `    <name>${xmlEscape(name)}</name>`,
+    ...rtepts,
+    `  </rte>`,
+    `  <trk>`,
+    `    <name>${xmlEscape(name)}</name>`,
+    `    <extensions><cr:distance>${route.distance}</cr:distance><cr:duration>${route.duration}</cr:duration></extensions>`,
+    `    <trkseg>`,
+    ...trkpts,
+    `    </trkseg>`,
+    `  </trk>`,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function toGeoJson(route: RouteData, stops: RouteStop[], name: string): string {
+  const line = {
+    type: 'Feature',
+    properties: {
+      name,
+      distance: route.distance,
+      duration: route.duration,
+      algorithm: route.algorithm,
+      steps: route.steps.map(({ instruction, distance, duration, maneuver }) => ({ instruction, distance, duration, maneuver })),
+    },
+    geometry: { type: 'LineString', coordinates: route.geometry.map(([lat, lng]) => [lng, lat]) },
+  };
+  const points = stops.map((s, index) => ({
+    type: 'Feature',
+    properties: { role: 'stop', index, name: s.name },
+    geometry: { type: 'Point', coordinates: [s.lng, s.lat] },
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', features: [line, ...points] }, null, 2);
+}
+
+function toKml(route: RouteData, stops: RouteStop[], name: string): string {
+  const data = (key: string, value: string | number) => `<Data name="${key}"><value>${xmlEscape(String(value))}</value></Data>`;
+  const placemarks = stops.map(s =>
+    `      <Placemark><name>${xmlEscape(s.name)}</name><Point><coordinates>${s.lng},${s.lat}</coordinates></Point></Placemark>`
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xmlEscape(name)}</name>`,
+    '    <Placemark>',
+    `      <name>${xmlEscape(name)}</name>`,
+    `      <ExtendedData>${data('distance', route.distance)}${data('duration', route.duration)}${data('algorithm', route.algorithm)}</ExtendedData>`,
+    '      <LineString><tessellate>1</tessellate><coordinates>',
+    route.geometry.map(([lat, lng]) => `${lng},${lat}`).join(' '),
+    '      </coordinates></LineString>',
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>Stops</name>',
+    ...placemarks,
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serializes a route with its stops in visiting order. `stopNames` are the
+ * labels shown for the route's waypoints, in the same order.
+ */
+export function exportRoute(route: RouteData, stopNames: string[], format: RouteFileFormat, name = 'CityRoute route'): string {
+  const stops = route.waypoints.map(([lat, lng], i) => ({ lat, lng, name: stopNames[i] ?? `Stop ${i + 1}` }));
+  switch (format) {
+    case 'gpx': return toGpx(route, stops, name);
+    case 'geojson': return toGeoJson(route, stops, name);
+    case 'kml': return toKml(route, stops, name);
+  }
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+// Text content of the first <tag> in `source`, CDATA unwrapped
+function childText(source: string, tag: string): string | undefined {
+  const m = source.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  if (!m) return undefined;
+  const cdata = m[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return cdata ? cdata[1] : decodeEntities(m[1].trim());
+}
+
+const attribute = (source: string, name: string) => {
+  const m = source.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return m ? Number(m[1] ?? m[2]) : NaN;
+};
+
+// <rtept>, <wpt> and <trkpt> share one shape
+function gpxPoints(text: string, tag: string): RouteStop[] {
+  const points: RouteStop[] = [];
+  for (const m of text.matchAll(new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g'))) {
+    const lat = attribute(m[1], 'lat'), lng = attribute(m[1], 'lon');
+    if (Number.isFinite(lat) && Number.isFinite(lng)) points.push({ lat, lng, name: childText(m[2] ?? '', 'name') ?? '' });
+  }
+  return points;
+}
+
+function fromGpx(text: string): Omit<ImportedTrack, 'format'> {
+  const track = gpxPoints(text, 'trkpt');
+  const route = gpxPoints(text, 'rtept');
+  const stops = route.length > 0 ? route : gpxPoints(text, 'wpt');
+  // Without a track, the route points are the line
+  const geometry = (track.length > 0 ? track : route).map(p => [p.lat, p.lng] as [number, number]);
+  const trk = text.match(/<trk\b[\s\S]*?<\/trk>/)?.[0] ?? '';
+  // Files exported before the extensions had a namespace carry them unprefixed
+  const distance = Number(childText(trk, 'cr:distance') ?? childText(trk, 'distance'));
+  const duration = Number(childText(trk, 'cr:duration') ?? childText(trk, 'duration'));
+
+  return {
+    name: childText(text, 'name') ?? '',
+    geometry,
+    stops: stops.map((s, i) => ({ ...s, name: s.name || `Point ${i + 1}` })),
+    distance: Number.isFinite(distance) && distance > 0 ? distance : lineLength(geometry),
+    duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+  };
+}
+
+// "lng,lat[,alt]" tuples separated by whitespace
+const kmlCoordinates = (source: string): [number, number][] =>
+  source.trim().split(/\s+/).map(tuple => tuple.split(',').map(Number)).filter(([lng, lat]) => Number.isFinite(lat) && Number.isFinite(lng))
+    .map(([lng, lat]) => [lat, lng]);
+
+function fromKml(text: string): Omit<ImportedTrack, 'format'> {
+  const geometry: [number, number][] = [];
+  const stops: RouteStop[] = [];
+  let distance = NaN, duration = NaN;
+
+  for (const [placemark] of text.matchAll(/<Placemark\b[\s\S]*?<\/Placemark>/g)) {
+    for (const [line] of placemark.matchAll(/<LineString\b[\s\S]*?<\/LineString>/g)) {
+      geometry.push(...kmlCoordinates(childText(line, 'coordinates') ?? ''));
+      for (const m of placemark.matchAll(/<Data\s+name="(\w+)">\s*<value>([\s\S]*?)<\/value>/g)) {
+        if (m[1] === 'distance') distance = Number(m[2]);
+        if (m[1] === 'duration') duration = Number(m[2]);
+      }
+    }
+    const point = placemark.match(/<Point\b[\s\S]*?<\/Point>/)?.[0];
+    if (point) {
+      const [coord] = kmlCoordinates(childText(point, 'coordinates') ?? '');
+      if (coord) stops.push({ lat: coord[0], lng: coord[1], name: childText(placemark, 'name') || `Point ${stops.length + 1}` });
+    }
+  }
+
+  return {
+    name: childText(text.replace(/<Placemark\b[\s\S]*?<\/Placemark>/g, ''), 'name') ?? '',
+    geometry,
+    stops,
+    distance: Number.isFinite(distance) && distance > 0 ? distance : lineLength(geometry),
+    duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+  };
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+function fromGeoJson(text: string): Omit<ImportedTrack, 'format'> {
+  const data = JSON.parse(text);
+  const features: GeoJsonFeature[] =
+    data?.type === 'FeatureCollection' ? data.features
+    : data?.type === 'Feature' ? [data]
+    : [{ type: 'Feature', geometry: data }];
+
+  const geometry: [number, number][] = [];
+  const stops: (RouteStop & { index: number })[] = [];
+  let props: Record<string, unknown> = {};
+
+  for (const { properties, geometry: g } of features) {
+    if (g?.type === 'LineString' || g?.type === 'MultiLineString') {
+      const lines = (g.type === 'LineString' ? [g.coordinates] : g.coordinates) as number[][][];
+      for (const line of lines) geometry.push(...line.map(([lng, lat]) => [lat, lng] as [number, number]));
+      if (Object.keys(props).length === 0) props = properties ?? {};
+    } else if (g?.type === 'Point') {
+      const [lng, lat] = g.coordinates as number[];
+      const index = typeof properties?.index === 'number' ? properties.index : stops.length;
+      stops.push({ lat, lng, name: String(properties?.name ?? `Point ${stops.length + 1}`), index });
+    }
+  }
+
+  stops.sort((a, b) => a.index - b.index);
+  return {
+    name: typeof props.name === 'string' ? props.name : '',
+    geometry,
+    stops: stops.map(({ lat, lng, name }) => ({ lat, lng, name })),
+    distance: typeof props.distance === 'number' ? props.distance : lineLength(geometry),
+    duration: typeof props.duration === 'number' ? props.duration : null,
+  };
+}
+
+export function routeFileFormat(filename: string): RouteFileFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'kml') return extension;
+  return extension === 'geojson' ? 'geojson' : null;
+}
+
+export function parseRouteFile(text: string, filename: string): ImportedTrack {
+  const format = routeFileFormat(filename) ?? (text.trimStart().startsWith('{') ? 'geojson' : /<kml\b/.test(text) ? 'kml' : 'gpx');
+  const track = format === 'gpx' ? fromGpx(text) : format === 'kml' ? fromKml(text) : fromGeoJson(text);
+  if (track.geometry.length < 2 && track.stops.length < 2) throw new Error('The file contains no route or track');
+
+  // A file with only stops still draws as a line through them
+  const geometry = track.geometry.length >= 2 ? track.geometry : track.stops.map(s => [s.lat, s.lng] as [number, number]);
+  return { ...track, format, geometry, name: track.name || filename.replace(/\.[^.]+$/, '') };
+}
+
+// ============================================================
+// COMPARISON
+// ============================================================
+const MATCH_TOLERANCE_M = 30;
+const MAX_COMPARE_POINTS = 400;
+
+// Meters from p to the segment a–b, in a flat projection around p
+function segmentDistance(p: Coordinate, a: [number, number], b: [number, number]): number {
+  const kx = 111320 * Math.cos(p.lat * DEG_TO_RAD), ky = 110540;
+  const ax = (a[1] - p.lng) * kx, ay = (a[0] - p.lat) * ky;
+  const dx = (b[1] - a[1]) * kx, dy = (b[0] - a[0]) * ky;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / len2)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Share of the imported line that runs within MATCH_TOLERANCE_M of the
+ * route, measured on up to MAX_COMPARE_POINTS evenly picked points.
+ */
+export function trackOverlap(track: ImportedTrack, route: RouteData): number {
+  const step = Math.max(1, Math.ceil(track.geometry.length / MAX_COMPARE_POINTS));
+  const sample = track.geometry.filter((_, i) => i % step === 0);
+  const near = sample.filter(([lat, lng]) =>
+    route.geometry.some((a, i) => i > 0 && segmentDistance({ lat, lng }, route.geometry[i - 1], a) <= MATCH_TOLERANCE_M)
+  );
+  return sample.length > 0 ? near.length / sample.length : 0;
+}
+
+/**
+ * Points to route through when re-routing an imported file: its stops if it
+ * has them, otherwise the track thinned to `max` evenly spaced points.
+ */
+export function trackWaypoints(track: ImportedTrack, max = 10): RouteStop[] {
+  if (track.stops.length >= 2) return track.stops;
+  const { geometry } = track;
+  const count = Math.min(max, geometry.length);
+  return Array.from({ length: count }, (_, i) => {
+    const [lat, lng] = geometry[Math.round((i * (geometry.length - 1)) / (count - 1))];
+    return { lat, lng, name: i === 0 ? 'Track start' : i === count - 1 ? 'Track end' : `Track point ${i}` };
+  });
+}
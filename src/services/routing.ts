@@ -1,12 +1,31 @@
+import { PROFILES } from './profiles';
+import type { ProfileId } from './profiles';
+import { ZoneTester } from './zones';
+import type { AvoidZone } from './zones';
+import { log } from './log';
+
 export interface Coordinate {
   lat: number;
   lng: number;
 }
 
+export interface StepManeuver {
+  type: string; // OSRM vocabulary: depart, turn, continue, arrive, roundabout…
+  modifier?: string; // left, slight right, straight, uturn…
+  location: [number, number]; // [lat, lng] where the maneuver happens
+}
+
 export interface RouteStep {
   instruction: string;
   distance: number;
   duration: number;
+  maneuver: StepManeuver;
+  geometry: [number, number][]; // this step's own segment, [lat, lng]
+}
+
+export interface RouteLeg {
+  distance: number; // in meters
+  duration: number; // in seconds
 }
 
 export interface RouteData {
@@ -14,51 +33,261 @@ export interface RouteData {
   distance: number; // in meters
   duration: number; // in seconds
   steps: RouteStep[];
+  legs: RouteLeg[]; // one per consecutive waypoint pair
+  waypoints: [number, number][]; // visited points in order, [lat, lng]
+  snapped: [number, number][]; // where each waypoint joins the road network
+  avoidance: AvoidanceReport;
   algorithm: string;
+  fallback?: string; // why this engine stood in for the one that was asked
+  elevation?: RouteElevation | null; // set once elevation tiles are loaded; null = route not covered
+}
+
+// Heights along a route from local DEM tiles
+export interface RouteElevation {
+  ascent: number; // meters
+  descent: number; // meters
+  maxGrade: number; // steepest climb over 100 m, as a fraction (0.08 = 8 %)
+  profile: { distance: number; elevation: number; lat: number; lng: number }[];
+}
+
+// Outcome of every requested avoidance
+export interface AvoidanceReport {
+  honored: Avoidance[]; // the route stays off these
+  violated: Avoidance[]; // no route exists without them
+  unsupported: Avoidance[]; // the engine cannot tell, e.g. surfaces on OSRM
+  zones: string[]; // names of active avoid-zones the route still enters
+}
+
+// Steps carry the full-resolution geometry; OSRM's overview is simplified
+export const routeLines = (route: RouteData) => (route.steps.length ? route.steps.map(s => s.geometry) : [route.geometry]);
+
+// Row = source, column = destination; null marks an unreachable pair
+export interface CostMatrix {
+  distances: (number | null)[][];
+  durations: (number | null)[][];
+}
+
+export type EngineId = 'osrm' | 'local';
+
+export type Objective = 'fastest' | 'shortest';
+
+// Road classes a route can be asked to stay off. The first three match the
+// OSRM car profile's `exclude` classes; OSRM has no notion of surface.
+export type Avoidance = 'motorway' | 'toll' | 'ferry' | 'unpaved';
+
+// Local engine only: plain A*, or bidirectional search over ALT landmarks
+export type LocalSearch = 'astar' | 'alt';
+
+export interface RouteOptions {
+  objective: Objective;
+  profile: ProfileId;
+  search?: LocalSearch;
+  avoid?: Avoidance[];
+  zones?: AvoidZone[]; // only the active ones
+  climb?: boolean; // local engine only: make climbing cost extra, per the profile's climbSeconds
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = { objective: 'fastest', profile: 'car' };
+
+export interface TaskProgress {
+  stage: 'import' | 'tiles' | 'graph' | 'preprocess' | 'search' | 'geocode';
+  done: number;
+  total?: number;
+}
+
+// Long-running requests report progress and stop once the signal aborts
+export interface TaskControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: TaskProgress) => void;
+}
+
+/**
+ * Common contract for every routing backend. Engines return the same
+ * RouteData shape so the UI never needs to know where a route came from.
+ */
+export interface RoutingEngine {
+  id: EngineId;
+  label: string;
+  // Ranked candidates, best first; empty when no route exists. Either call may reject with the reason it failed
+  route(waypoints: Coordinate[], options?: RouteOptions, control?: TaskControl): Promise<RouteData[]>;
+  matrix(sources: Coordinate[], destinations: Coordinate[], options?: RouteOptions, control?: TaskControl): Promise<CostMatrix | null>;
+}
+
+const toOsrmCoords = (points: Coordinate[]) => points.map(p => `${p.lng},${p.lat}`).join(';');
+
+async function fetchOsrm(url: string, signal?: AbortSignal) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error('OSRM request timed out')), 10000);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    // Bad requests come back as 400 with a JSON error code, which callers check
+    if (!response.ok && response.status !== 400) throw new Error('OSRM request failed');
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Subset of the OSRM response we read (geometries=geojson, steps=true)
+interface OsrmStep {
+  name: string;
+  intersections: { classes?: string[] }[]; // classes of the road leaving each intersection
+  distance: number;
+  duration: number;
+  maneuver: { type: string; modifier?: string; location: [number, number] };
+  geometry: { coordinates: [number, number][] };
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry: { coordinates: [number, number][] };
+  legs: { distance: number; duration: number; steps: OsrmStep[] }[];
+}
+
+// Input coordinate as OSRM snapped it onto its network
+interface OsrmWaypoint {
+  location: [number, number];
+}
+
+export const MAX_ROUTES = 3; // primary + alternatives shown side by side
+
+const toLatLng = (coords: [number, number][]) =>
+  coords.map(([lng, lat]) => [lat, lng] as [number, number]);
+
+// Judged on what the route actually uses, since `exclude` may have been dropped
+function osrmAvoidance(route: OsrmRoute, avoid: Avoidance[]): Omit<AvoidanceReport, 'zones'> {
+  const used = new Set(route.legs.flatMap(leg => leg.steps.flatMap(step => step.intersections.flatMap(i => i.classes ?? []))));
+  const checkable: Avoidance[] = avoid.filter(a => a !== 'unpaved');
+  return {
+    honored: checkable.filter(a => !used.has(a)),
+    violated: checkable.filter(a => used.has(a)),
+    unsupported: avoid.filter(a => !checkable.includes(a)),
+  };
+}
+
+function parseOsrmRoute(route: OsrmRoute, waypoints: Coordinate[], snapped: [number, number][], avoid: Avoidance[]): RouteData {
+  const steps: RouteStep[] = route.legs.flatMap(leg => leg.steps).map(step => ({
+    instruction: step.maneuver.modifier
+      ? `${step.maneuver.type} ${step.maneuver.modifier} on ${step.name || 'unnamed road'}`
+      : `${step.maneuver.type} on ${step.name || 'unnamed road'}`,
+    distance: step.distance,
+    duration: step.duration,
+    maneuver: {
+      type: step.maneuver.type,
+      modifier: step.maneuver.modifier,
+      location: [step.maneuver.location[1], step.maneuver.location[0]]
+    },
+    geometry: toLatLng(step.geometry.coordinates)
+  }));
+
+  return {
+    geometry: toLatLng(route.geometry.coordinates),
+    distance: route.distance,
+    duration: route.duration,
+    steps,
+    legs: route.legs.map(leg => ({ distance: leg.distance, duration: leg.duration })),
+    waypoints: waypoints.map(w => [w.lat, w.lng] as [number, number]),
+    snapped,
+    avoidance: { ...osrmAvoidance(route, avoid), zones: [] },
+    algorithm: 'Dijkstra (Contraction Hierarchies)'
+  };
 }
 
 /**
  * Fast OSRM routing — uses Dijkstra-based Contraction Hierarchies internally.
  * If OSRM returns a route, it's drivable. OSRM never routes across oceans.
+ * Alternatives are only offered for plain A→B requests; OSRM ignores them with via points.
+ * OSRM always optimizes duration, so "shortest" just re-ranks its candidates by distance.
+ * Avoidances the profile can exclude go into `exclude=`; if the server rejects
+ * that combination the route is fetched without it and reported as violated.
+ * Avoid-zones cannot be sent at all, so routes only report the ones they enter.
  */
-export async function fetchRoute(start: Coordinate, end: Coordinate): Promise<RouteData | null> {
-  const url = `https://router.project-osrm.org/route/v1/driving/${start.lng},${start.lat};${end.lng},${end.lat}?overview=simplified&geometries=geojson&steps=true`;
+export async function fetchRoute(
+  waypoints: Coordinate[],
+  { objective, profile, avoid = [], zones = [] }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<RouteData[]> {
+  const alternatives = waypoints.length === 2 ? MAX_ROUTES - 1 : 0;
+  const url = `${PROFILES[profile].osrmBase}/route/v1/driving/${toOsrmCoords(waypoints)}?overview=simplified&geometries=geojson&steps=true&alternatives=${alternatives || 'false'}`;
+  const exclude = avoid.filter(a => PROFILES[profile].osrmExclude.includes(a));
 
   try {
-    console.log('Fetching route from OSRM...');
+    log.info('Fetching route from OSRM...');
     const t0 = performance.now();
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 10000);
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(timer);
-    if (!response.ok) throw new Error('OSRM request failed');
-    const data = await response.json();
-    console.log(`OSRM responded in ${((performance.now() - t0) / 1000).toFixed(2)}s`);
-
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) return null;
-
-    const route = data.routes[0];
-    const geometry: [number, number][] = route.geometry.coordinates.map(
-      (coord: [number, number]) => [coord[1], coord[0]]
-    );
-
-    const steps = route.legs[0].steps.map((step: any) => ({
-      instruction: step.maneuver.modifier
-        ? `${step.maneuver.type} ${step.maneuver.modifier} on ${step.name || 'unnamed road'}`
-        : `${step.maneuver.type} on ${step.name || 'unnamed road'}`,
-      distance: step.distance,
-      duration: step.duration
-    }));
-
-    return {
-      geometry,
-      distance: route.distance,
-      duration: route.duration,
-      steps,
-      algorithm: 'Dijkstra (Contraction Hierarchies)'
-    };
+    let data = await fetchOsrm(exclude.length ? `${url}&exclude=${exclude.join(',')}` : url, control.signal);
+    if (exclude.length && data.code === 'InvalidValue') {
+      log.warn(`OSRM cannot exclude ${exclude.join(' + ')} together, routing without exclusions`);
+      data = await fetchOsrm(url, control.signal);
+    }
+    log.info(`OSRM responded in ${((performance.now() - t0) / 1000).toFixed(2)}s`);
+
+    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) return [];
+
+    const snapped = toLatLng((data.waypoints as OsrmWaypoint[]).map(w => w.location));
+    const routes = (data.routes as OsrmRoute[])
+      .slice(0, MAX_ROUTES)
+      .map(route => parseOsrmRoute(route, waypoints, snapped, avoid));
+    const zoneTester = new ZoneTester(zones);
+    for (const route of routes) route.avoidance.zones = zoneTester.entered(routeLines(route));
+    if (objective === 'shortest') routes.sort((a, b) => a.distance - b.distance);
+    return routes;
   } catch (error) {
-    console.error('Error computing route:', error);
-    return null;
+    // Only a cancelled search comes back empty; anything else carries its reason to the caller
+    if (control.signal?.aborted) return [];
+    throw error;
   }
 }
+
+const TABLE_BLOCK = 50; // per side of one /table request; the public server allows 100 × 100
+
+async function fetchTableBlock(sources: Coordinate[], destinations: Coordinate[], profile: ProfileId, signal?: AbortSignal): Promise<CostMatrix | null> {
+  const srcIdx = sources.map((_, i) => i).join(';');
+  const dstIdx = destinations.map((_, i) => i + sources.length).join(';');
+  const url = `${PROFILES[profile].osrmBase}/table/v1/driving/${toOsrmCoords([...sources, ...destinations])}?sources=${srcIdx}&destinations=${dstIdx}&annotations=distance,duration`;
+  const data = await fetchOsrm(url, signal);
+  return data.code === 'Ok' ? { distances: data.distances, durations: data.durations } : null;
+}
+
+/**
+ * OSRM /table service. Small grids take one request; larger ones are split
+ * into TABLE_BLOCK × TABLE_BLOCK requests, run one after another.
+ */
+export async function fetchTable(
+  sources: Coordinate[],
+  destinations: Coordinate[],
+  { profile }: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  control: TaskControl = {}
+): Promise<CostMatrix | null> {
+  const blocks = (points: Coordinate[]) =>
+    Array.from({ length: Math.ceil(points.length / TABLE_BLOCK) }, (_, i) => i * TABLE_BLOCK);
+  const matrix: CostMatrix = {
+    distances: sources.map(() => []),
+    durations: sources.map(() => []),
+  };
+
+  try {
+    for (const row of blocks(sources)) {
+      for (const col of blocks(destinations)) {
+        const block = await fetchTableBlock(sources.slice(row, row + TABLE_BLOCK), destinations.slice(col, col + TABLE_BLOCK), profile, control.signal);
+        if (!block) return null;
+        block.distances.forEach((values, i) => matrix.distances[row + i].push(...values));
+        block.durations.forEach((values, i) => matrix.durations[row + i].push(...values));
+      }
+    }
+    return matrix;
+  } catch (error) {
+    if (control.signal?.aborted) return null;
+    throw error;
+  }
+}
+
+export const osrmEngine: RoutingEngine = {
+  id: 'osrm',
+  label: 'OSRM',
+  route: fetchRoute,
+  matrix: fetchTable
+};
@@ -0,0 +1,70 @@
+import { benchmarkLocalSearch, computeDijkstraRoute, computeIsochrones, computeLocalMatrix, findNearestRoad, setOfflineNetwork, traceLocalSearch } from './dijkstra';
+import { importOsmFile } from './osmImport';
+import { clearDemTiles, hasElevation, importDemFile, routeElevation } from './elevation';
+import type { TaskControl } from './routing';
+import type { WorkerRequest, WorkerResponse, WorkerResults, WorkerTask } from './workerProtocol';
+
+// Graph parsing, snapping and search all happen here. Built graphs and any
+// imported extract stay cached in this worker, so only waypoints, results
+// and progress ever cross the thread boundary.
+const ctx = self as unknown as Worker;
+const running = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+async function run(task: WorkerTask, control: TaskControl): Promise<WorkerResults[WorkerTask['type']]> {
+  switch (task.type) {
+    case 'route':
+      return computeDijkstraRoute(task.waypoints, task.options, control);
+    case 'matrix':
+      return computeLocalMatrix(task.sources, task.destinations, task.options, control);
+    case 'benchmark':
+      return benchmarkLocalSearch(task.waypoints, task.options, control);
+    case 'trace':
+      return traceLocalSearch(task.waypoints, task.algorithm, task.options, control);
+    case 'isochrone':
+      return computeIsochrones(task.origin, task.budgets, task.metric, task.options, control);
+    case 'nearestRoad':
+      return findNearestRoad(task.point, control);
+    case 'import': {
+      const network = await importOsmFile(task.file, control);
+      setOfflineNetwork(network);
+      const { name, format, bounds, stats, places } = network;
+      return { name, format, bounds, stats, places };
+    }
+    case 'unload':
+      setOfflineNetwork(null);
+      return null;
+    case 'elevation':
+      return importDemFile(task.file);
+    case 'clearElevation':
+      clearDemTiles();
+      return null;
+    case 'routeElevation':
+      return hasElevation() ? task.lines.map(routeElevation) : null;
+  }
+}
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  try {
+    const result = await run(request, {
+      signal: controller.signal,
+      onProgress: progress => post({ id, type: 'progress', progress }),
+    });
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error), aborted: controller.signal.aborted });
+  } finally {
+    running.delete(id);
+  }
+};
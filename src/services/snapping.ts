@@ -0,0 +1,316 @@
+import type { Avoidance, Coordinate } from './routing';
+import type { Edge, GraphData } from './graph';
+import type { TravelProfile } from './profiles';
+import { bearing, DEG_TO_RAD } from './geo';
+import { log } from './log';
+
+// ============================================================
+// EDGE GRID INDEX
+// ============================================================
+const CELL_DEG = 0.0025; // ~280 m north–south, less east–west
+const MAX_RING = 25; // give up ~5 km out
+const SNAP_AVOID_RADIUS = 250; // an ordinary road this close beats a profile's snapAvoid roads
+const SNAP_MAX_DISTANCE = 5000;
+const NAMED_ROAD_RADIUS = 100; // a named street this close beats a nearer unnamed service road
+const CARRIAGEWAY_GAP = 30; // how much further a carriageway going the right way may be than the nearest road
+
+/**
+ * A road segment between two consecutive OSM nodes, together with the
+ * directed edges the profile may use on it (null = not in that direction).
+ */
+interface Segment {
+  a: number;
+  b: number;
+  forward: Edge | null; // a → b
+  backward: Edge | null; // b → a
+}
+
+interface SegmentHit {
+  segment: Segment;
+  t: number; // position along the segment, 0 at a, 1 at b
+  point: Coordinate;
+  distance: number; // meters from the query point
+}
+
+// Cell x spans ±72000 and y ±36000, so this never collides
+const cellKey = (x: number, y: number) => x * 1e6 + y;
+
+/**
+ * Uniform lat/lng grid over every segment of a graph. Queries walk outwards
+ * ring by ring and stop once no unvisited cell can hold anything closer.
+ */
+class EdgeIndex {
+  private nodes: Map<number, Coordinate>;
+  private segments: Segment[] = [];
+  private cells = new Map<number, number[]>();
+
+  constructor({ nodes, graph }: GraphData) {
+    this.nodes = nodes;
+
+    // One Segment per node pair and way, whichever directions exist
+    for (const [u, edges] of graph) {
+      for (const edge of edges) {
+        const v = edge.to;
+        const reverse = graph.get(v)?.find(e => e.to === u && e.way === edge.way) ?? null;
+        if (u < v) this.add({ a: u, b: v, forward: edge, backward: reverse });
+        else if (u > v && !reverse) this.add({ a: v, b: u, forward: null, backward: edge });
+      }
+    }
+  }
+
+  private add(segment: Segment) {
+    const a = this.nodes.get(segment.a)!, b = this.nodes.get(segment.b)!;
+    const i = this.segments.push(segment) - 1;
+    const x0 = Math.floor(Math.min(a.lng, b.lng) / CELL_DEG), x1 = Math.floor(Math.max(a.lng, b.lng) / CELL_DEG);
+    const y0 = Math.floor(Math.min(a.lat, b.lat) / CELL_DEG), y1 = Math.floor(Math.max(a.lat, b.lat) / CELL_DEG);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = cellKey(x, y);
+        const cell = this.cells.get(key);
+        if (cell) cell.push(i);
+        else this.cells.set(key, [i]);
+      }
+    }
+  }
+
+  // Perpendicular foot of p on the segment, in a local flat projection around p
+  private project(p: Coordinate, segment: Segment): SegmentHit {
+    const a = this.nodes.get(segment.a)!, b = this.nodes.get(segment.b)!;
+    const kx = 111320 * Math.cos(p.lat * DEG_TO_RAD), ky = 110540;
+    const ax = (a.lng - p.lng) * kx, ay = (a.lat - p.lat) * ky;
+    const dx = (b.lng - a.lng) * kx, dy = (b.lat - a.lat) * ky;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / len2)) : 0;
+    return {
+      segment,
+      t,
+      point: { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) },
+      distance: Math.hypot(ax + t * dx, ay + t * dy),
+    };
+  }
+
+  nearest(p: Coordinate, accept: (segment: Segment) => boolean, maxDistance: number): SegmentHit | null {
+    const cx = Math.floor(p.lng / CELL_DEG), cy = Math.floor(p.lat / CELL_DEG);
+    const cellWidth = CELL_DEG * 111320 * Math.cos(p.lat * DEG_TO_RAD); // the narrow side
+    const seen = new Set<number>();
+    let best: SegmentHit | null = null;
+
+    for (let r = 0; r <= MAX_RING; r++) {
+      // p sits somewhere inside the centre cell, so ring r is at least r - 1 cells away
+      const ringDistance = Math.max(0, r - 1) * cellWidth;
+      if (ringDistance > Math.min(best?.distance ?? Infinity, maxDistance)) break;
+
+      for (let x = cx - r; x <= cx + r; x++) {
+        for (let y = cy - r; y <= cy + r; y++) {
+          if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) !== r) continue;
+          for (const i of this.cells.get(cellKey(x, y)) ?? []) {
+            if (seen.has(i)) continue;
+            seen.add(i);
+            if (!accept(this.segments[i])) continue;
+            const hit = this.project(p, this.segments[i]);
+            if (hit.distance <= maxDistance && hit.distance < (best?.distance ?? Infinity)) best = hit;
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+// Built once per graph; the graphs themselves are cached upstream
+const indexes = new WeakMap<GraphData, EdgeIndex>();
+
+function edgeIndex(network: GraphData): EdgeIndex {
+  let index = indexes.get(network);
+  if (!index) {
+    const t0 = performance.now();
+    index = new EdgeIndex(network);
+    indexes.set(network, index);
+    log.info(`Edge index built in ${(performance.now() - t0).toFixed(0)}ms`);
+  }
+  return index;
+}
+
+// True if a segment can be travelled within 90° of `heading`; two-way segments always can
+function goesWith({ nodes }: GraphData, segment: Segment, heading: number): boolean {
+  if (segment.forward && segment.backward) return true;
+  const a = nodes.get(segment.a)!, b = nodes.get(segment.b)!;
+  const along = segment.forward ? bearing(a, b) : bearing(b, a);
+  const diff = Math.abs(along - heading) % 360;
+  return Math.min(diff, 360 - diff) < 90;
+}
+
+/**
+ * Nearest point on a road the profile can travel. Roads in
+ * `profile.snapAvoid` (motorways and slip roads for cars) and roads in an
+ * avoided class only win when no ordinary road is within SNAP_AVOID_RADIUS —
+ * nobody starts a trip on one. Given the `heading` the trip leaves or
+ * arrives in, a one-way road running against it gives way to one within
+ * CARRIAGEWAY_GAP that goes along, so a point between the two halves of a
+ * dual carriageway starts on the right one instead of looping round.
+ */
+function snapPoint(network: GraphData, profile: TravelProfile, avoid: Avoidance[], p: Coordinate, heading?: number): SegmentHit | null {
+  const index = edgeIndex(network);
+  const snapAvoid = new Set(profile.snapAvoid);
+  const ordinary = (s: Segment) => {
+    const way = network.ways[(s.forward ?? s.backward)!.way];
+    return !snapAvoid.has(way.highway) && !way.avoid.some(a => avoid.includes(a));
+  };
+  const any = () => true;
+
+  let accept = ordinary;
+  let hit = index.nearest(p, ordinary, SNAP_AVOID_RADIUS);
+  if (!hit) {
+    accept = any;
+    hit = index.nearest(p, any, SNAP_MAX_DISTANCE);
+  }
+  if (!hit || heading === undefined || goesWith(network, hit.segment, heading)) return hit;
+  return index.nearest(p, s => accept(s) && goesWith(network, s, heading), hit.distance + CARRIAGEWAY_GAP) ?? hit;
+}
+
+/**
+ * Direction each stop of a trip is travelled in: towards the next stop,
+ * and for the last one, on from the stop before it.
+ */
+export function tripHeadings(points: Coordinate[]): number[] {
+  return points.map((p, i) => (i < points.length - 1 ? bearing(p, points[i + 1]) : bearing(points[i - 1] ?? p, p)));
+}
+
+export interface NearestRoad {
+  name: string; // '' if even the nearest road has none
+  highway: string;
+  point: Coordinate; // closest point on it
+  distance: number; // meters
+}
+
+// Nearest road of any kind, for describing a spot on the map rather than routing from it
+export function nearestRoad(network: GraphData, p: Coordinate, maxDistance: number): NearestRoad | null {
+  const index = edgeIndex(network);
+  const wayOf = (s: Segment) => network.ways[(s.forward ?? s.backward)!.way];
+  const hit = index.nearest(p, s => wayOf(s).name !== '', NAMED_ROAD_RADIUS) ?? index.nearest(p, () => true, maxDistance);
+  if (!hit) return null;
+  const { name, highway } = wayOf(hit.segment);
+  return { name, highway, point: hit.point, distance: hit.distance };
+}
+
+// ============================================================
+// VIRTUAL NODES
+// ============================================================
+const VIRTUAL_NODE_BASE = 2 ** 52; // far above any OSM id, and positive so it reads as a plain node
+
+export const isVirtualNode = (id: number) => id >= VIRTUAL_NODE_BASE;
+
+/**
+ * Map that reads through to a base map. Lets a single query add virtual
+ * nodes and edges without copying or mutating the shared cached graph.
+ * Iteration only sees the overlay's own entries.
+ */
+export class OverlayMap<K, V> extends Map<K, V> {
+  private base: Map<K, V>;
+
+  constructor(base: Map<K, V>) {
+    super();
+    this.base = base;
+  }
+
+  get(key: K): V | undefined {
+    return super.has(key) ? super.get(key) : this.base.get(key);
+  }
+
+  has(key: K): boolean {
+    return super.has(key) || this.base.has(key);
+  }
+
+  get size(): number {
+    return this.base.size + super.size;
+  }
+}
+
+export interface DirectedEdge {
+  from: number;
+  edge: Edge;
+}
+
+export interface AttachedPoints {
+  network: GraphData; // the cached graph with split segments replaced by virtual pieces
+  ids: number[]; // node for each input point: virtual, or the OSM node it landed on
+  snapped: Coordinate[]; // where each point landed on the road
+  virtualEdges: DirectedEdge[]; // every edge added to or from a virtual node
+  splitEdges: DirectedEdge[]; // base edges hidden from network.graph, replaced by their pieces
+  baseOf: Map<Edge, DirectedEdge>; // the split edge each virtual piece was cut from
+}
+
+/**
+ * Splits the nearest segment under each point with a virtual node so routes
+ * start and end exactly beside the point rather than at the closest OSM node.
+ * The split edge itself is hidden, so only its pieces can be travelled; a
+ * point at either end of its segment uses that OSM node instead.
+ * `headings` (see tripHeadings) steer points off one-way roads that run the
+ * wrong way. Returns null if any point has no usable road nearby.
+ */
+export function attachPoints(
+  network: GraphData,
+  profile: TravelProfile,
+  points: Coordinate[],
+  avoid: Avoidance[] = [],
+  headings: number[] = []
+): AttachedPoints | null {
+  const hits = points.map((p, i) => snapPoint(network, profile, avoid, p, headings[i]));
+  if (hits.some(h => h === null)) return null;
+  const snaps = hits as SegmentHit[];
+
+  const nodes = new OverlayMap(network.nodes);
+  const graph = new OverlayMap(network.graph);
+  const ids = snaps.map(() => -1);
+  const virtualEdges: DirectedEdge[] = [];
+  const splitEdges: DirectedEdge[] = [];
+  const baseOf = new Map<Edge, DirectedEdge>();
+
+  const hide = (from: number, edge: Edge) => {
+    graph.set(from, (graph.get(from) ?? []).filter(e => e !== edge));
+    splitEdges.push({ from, edge });
+  };
+  const addEdge = (from: number, to: number, base: DirectedEdge, fraction: number) => {
+    const { edge } = base;
+    const piece = { to, length: edge.length * fraction, time: edge.time * fraction, way: edge.way };
+    graph.set(from, [...(graph.get(from) ?? []), piece]);
+    virtualEdges.push({ from, edge: piece });
+    baseOf.set(piece, base);
+  };
+
+  // Several points can share a segment: chain them in order along it
+  const bySegment = new Map<Segment, number[]>();
+  snaps.forEach((snap, i) => bySegment.set(snap.segment, [...(bySegment.get(snap.segment) ?? []), i]));
+
+  for (const [segment, members] of bySegment) {
+    members.sort((x, y) => snaps[x].t - snaps[y].t);
+    const chain = [segment.a];
+    const at = [0];
+    for (const i of members) {
+      const { t } = snaps[i];
+      if (t === 0) ids[i] = segment.a;
+      else if (t === 1) ids[i] = segment.b;
+      else if (t === at[at.length - 1]) ids[i] = chain[chain.length - 1]; // same spot as the point before
+      else {
+        ids[i] = VIRTUAL_NODE_BASE + i;
+        nodes.set(ids[i], snaps[i].point);
+        chain.push(ids[i]);
+        at.push(t);
+      }
+    }
+    if (chain.length === 1) continue;
+    chain.push(segment.b);
+    at.push(1);
+
+    if (segment.forward) hide(segment.a, segment.forward);
+    if (segment.backward) hide(segment.b, segment.backward);
+    for (let k = 0; k < chain.length - 1; k++) {
+      const fraction = at[k + 1] - at[k];
+      if (segment.forward) addEdge(chain[k], chain[k + 1], { from: segment.a, edge: segment.forward }, fraction);
+      if (segment.backward) addEdge(chain[k + 1], chain[k], { from: segment.b, edge: segment.backward }, fraction);
+    }
+  }
+
+  return { network: { ...network, nodes, graph }, ids, snapped: snaps.map(s => s.point), virtualEdges, splitEdges, baseOf };
+}
@@ -0,0 +1,48 @@
+// ============================================================
+// SPEED MODEL (km/h)
+// ============================================================
+// Free-flow defaults per OSM highway class, used when a way has no usable
+// maxspeed tag. Roughly in line with OSRM's car profile.
+export const DEFAULT_SPEEDS_KMH: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+};
+
+const FALLBACK_SPEED_KMH = 25;
+export const FERRY_SPEED_KMH = 5; // includes boarding; OSRM uses the same figure
+
+/**
+ * Parses an OSM maxspeed value into km/h. Handles plain numbers, "mph" and
+ * "knots" units; zone codes like "DE:urban", "none" or "walk" return null
+ * so the caller falls back to the highway-class default.
+ */
+export function parseMaxspeed(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(mph|knots)?$/i);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  if (!(n > 0)) return null;
+  const unit = match[2]?.toLowerCase();
+  if (unit === 'mph') return n * 1.609344;
+  if (unit === 'knots') return n * 1.852;
+  return n;
+}
+
+// Speed for a way in km/h: tagged maxspeed, else the class default
+export function waySpeedKmh(tags: Record<string, string> | undefined): number {
+  const tagged = parseMaxspeed(tags?.maxspeed);
+  if (tagged !== null) return tagged;
+  return DEFAULT_SPEEDS_KMH[tags?.highway ?? ''] ?? FALLBACK_SPEED_KMH;
+}
@@ -0,0 +1,220 @@
+import type { OsmElement } from './graph';
+import { allHighwaysFilter } from './profiles';
+import type { TaskControl } from './routing';
+import { log } from './log';
+
+// ============================================================
+// TILE GRID (slippy-map z14, ~2.4 km at the equator)
+// ============================================================
+export const TILE_ZOOM = 14;
+const MAX_TILES_PER_REQUEST = 100; // ~25 km × 25 km — beyond that Overpass is the wrong tool
+
+export interface TileId {
+  x: number;
+  y: number;
+}
+
+export interface TileBounds {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+export const tileKey = ({ x, y }: TileId) => `${TILE_ZOOM}/${x}/${y}`;
+
+function lonToTileX(lon: number): number {
+  return Math.floor(((lon + 180) / 360) * 2 ** TILE_ZOOM);
+}
+
+function latToTileY(lat: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** TILE_ZOOM);
+}
+
+export function tileBounds({ x, y }: TileId): TileBounds {
+  const n = 2 ** TILE_ZOOM;
+  const lat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+  return {
+    minLat: lat(y + 1),
+    minLon: (x / n) * 360 - 180,
+    maxLat: lat(y),
+    maxLon: ((x + 1) / n) * 360 - 180,
+  };
+}
+
+export function tilesForBounds({ minLat, minLon, maxLat, maxLon }: TileBounds): TileId[] {
+  const x0 = lonToTileX(minLon), x1 = lonToTileX(maxLon);
+  const y0 = latToTileY(maxLat), y1 = latToTileY(minLat); // tile y grows southwards
+  const count = (x1 - x0 + 1) * (y1 - y0 + 1);
+  if (count > MAX_TILES_PER_REQUEST) {
+    throw new Error(`Area too large for local routing (${count} tiles, max ${MAX_TILES_PER_REQUEST})`);
+  }
+
+  const tiles: TileId[] = [];
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) tiles.push({ x, y });
+  }
+  return tiles;
+}
+
+// ============================================================
+// INDEXEDDB STORAGE (age expiry + LRU size cap)
+// ============================================================
+const DB_NAME = 'city-route';
+const TILE_STORE = 'tiles';
+const META_STORE = 'tileMeta'; // separate so eviction never loads tile payloads
+const MAX_AGE_MS = 7 * 24 * 3600 * 1000; // roads change slowly; refresh weekly
+const MAX_BYTES = 50 * 1024 * 1024;
+const TILE_SCHEMA = 2; // bump when the Overpass query changes; older tiles are refetched
+
+interface TileMeta {
+  key: string;
+  fetchedAt: number;
+  lastUsed: number;
+  bytes: number;
+  schema?: number; // absent on tiles from before ferries were fetched
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore(TILE_STORE);
+      db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      log.warn('IndexedDB unavailable, tiles will only be cached in memory', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Fallback for private browsing and non-browser runtimes
+const memoryTiles = new Map<string, { elements: OsmElement[]; fetchedAt: number }>();
+
+async function readTile(key: string): Promise<{ elements: OsmElement[]; fetchedAt: number } | null> {
+  const db = await openDb();
+  if (!db) return memoryTiles.get(key) ?? null;
+
+  const tx = db.transaction([TILE_STORE, META_STORE], 'readwrite');
+  const meta = await requestResult<TileMeta | undefined>(tx.objectStore(META_STORE).get(key));
+  if (!meta || meta.schema !== TILE_SCHEMA) return null;
+  const elements = await requestResult<OsmElement[] | undefined>(tx.objectStore(TILE_STORE).get(key));
+  if (!elements) return null;
+
+  tx.objectStore(META_STORE).put({ ...meta, lastUsed: Date.now() });
+  await transactionDone(tx);
+  return { elements, fetchedAt: meta.fetchedAt };
+}
+
+async function writeTile(key: string, elements: OsmElement[]): Promise<void> {
+  const db = await openDb();
+  const now = Date.now();
+  if (!db) {
+    memoryTiles.set(key, { elements, fetchedAt: now });
+    return;
+  }
+
+  const bytes = JSON.stringify(elements).length;
+  const tx = db.transaction([TILE_STORE, META_STORE], 'readwrite');
+  tx.objectStore(TILE_STORE).put(elements, key);
+  tx.objectStore(META_STORE).put({ key, fetchedAt: now, lastUsed: now, bytes, schema: TILE_SCHEMA } satisfies TileMeta);
+  await transactionDone(tx);
+}
+
+// Drops least-recently-used tiles until the store fits under MAX_BYTES
+async function evictTiles(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const tx = db.transaction([TILE_STORE, META_STORE], 'readwrite');
+  const metas = await requestResult<TileMeta[]>(tx.objectStore(META_STORE).index('lastUsed').getAll());
+  let total = metas.reduce((sum, m) => sum + m.bytes, 0);
+  for (const meta of metas) {
+    if (total <= MAX_BYTES) break;
+    tx.objectStore(TILE_STORE).delete(meta.key);
+    tx.objectStore(META_STORE).delete(meta.key);
+    total -= meta.bytes;
+  }
+  await transactionDone(tx);
+}
+
+// ============================================================
+// OVERPASS TILE FETCH
+// ============================================================
+const OVERPASS_CONCURRENCY = 2; // overpass-api.de allows two slots per client
+
+async function fetchTileElements(tile: TileId, signal?: AbortSignal): Promise<OsmElement[]> {
+  const { minLat, minLon, maxLat, maxLon } = tileBounds(tile);
+  const bbox = `${minLat},${minLon},${maxLat},${maxLon}`;
+
+  // Every highway class any profile can use plus ferry routes, their nodes
+  // and any turn restrictions touching them — one tile serves all travel modes
+  const query = `[out:json][timeout:25];(way["highway"~"${allHighwaysFilter()}"](${bbox});way["route"="ferry"](${bbox}););->.roads;.roads out body qt;.roads >;out skel qt;rel(bw.roads)["type"="restriction"];out body qt;`;
+
+  const res = await fetch(`https://overpass-api.de/api/interpreter?data=${encodeURIComponent(query)}`, { signal });
+  if (!res.ok) throw new Error('Overpass API failed');
+  const data = await res.json();
+  return data.elements as OsmElement[];
+}
+
+/**
+ * Returns the OSM elements for every requested tile, reading fresh tiles from
+ * the persistent cache and fetching only the missing or expired ones. If a
+ * refresh fails, an expired copy is still better than nothing.
+ */
+export async function loadTiles(tiles: TileId[], { signal, onProgress }: TaskControl = {}): Promise<OsmElement[][]> {
+  const now = Date.now();
+  const cached = await Promise.all(tiles.map(t => readTile(tileKey(t)).catch(() => null)));
+  const missing = tiles.map((_, i) => i).filter(i => !cached[i] || now - cached[i]!.fetchedAt > MAX_AGE_MS);
+
+  log.info(`Road tiles: ${tiles.length - missing.length} cached, ${missing.length} to fetch`);
+  const results: OsmElement[][] = cached.map(c => c?.elements ?? []);
+
+  const t0 = performance.now();
+  let cursor = 0, fetched = 0;
+  const worker = async () => {
+    while (cursor < missing.length) {
+      signal?.throwIfAborted();
+      const i = missing[cursor++];
+      try {
+        results[i] = await fetchTileElements(tiles[i], signal);
+        await writeTile(tileKey(tiles[i]), results[i]);
+        onProgress?.({ stage: 'tiles', done: ++fetched, total: missing.length });
+      } catch (error) {
+        if (!cached[i] || signal?.aborted) throw error;
+        log.warn(`Tile ${tileKey(tiles[i])} refresh failed, using expired copy`, error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(OVERPASS_CONCURRENCY, missing.length) }, worker));
+
+  if (missing.length > 0) {
+    log.info(`Fetched ${missing.length} tiles from Overpass in ${((performance.now() - t0) / 1000).toFixed(1)}s`);
+    await evictTiles().catch(error => log.warn('Tile eviction failed', error));
+  }
+  return results;
+}
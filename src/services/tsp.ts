@@ -0,0 +1,111 @@
+// ============================================================
+// VISIT-ORDER OPTIMIZATION (open travelling-salesman path)
+// ============================================================
+// Index 0 of the cost matrix is always the fixed start. With fixedEnd the last
+// index is the fixed destination; otherwise the tour may finish at any stop.
+
+const EXACT_LIMIT = 12; // Held-Karp is O(2^n · n²) — fine up to here
+
+function pathCost(cost: number[][], order: number[]): number {
+  let total = 0;
+  for (let i = 0; i < order.length - 1; i++) total += cost[order[i]][order[i + 1]];
+  return total;
+}
+
+// Exact dynamic programming over subsets of the free stops
+function heldKarp(cost: number[][], free: number[], end: number | null): number[] {
+  const n = free.length;
+  const full = (1 << n) - 1;
+  const dp: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  const parent: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+
+  for (let j = 0; j < n; j++) dp[1 << j][j] = cost[0][free[j]];
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < n; j++) {
+      if (!(mask & (1 << j)) || dp[mask][j] === Infinity) continue;
+      for (let k = 0; k < n; k++) {
+        if (mask & (1 << k)) continue;
+        const next = mask | (1 << k);
+        const c = dp[mask][j] + cost[free[j]][free[k]];
+        if (c < dp[next][k]) {
+          dp[next][k] = c;
+          parent[next][k] = j;
+        }
+      }
+    }
+  }
+
+  let last = 0, best = Infinity;
+  for (let j = 0; j < n; j++) {
+    const c = dp[full][j] + (end !== null ? cost[free[j]][end] : 0);
+    if (c < best) { best = c; last = j; }
+  }
+  // Disconnected stops — any complete order is as good as another
+  if (best === Infinity) return heuristicOrder(cost, free, end);
+
+  const order: number[] = [];
+  let mask = full;
+  while (last !== -1) {
+    order.unshift(free[last]);
+    const p = parent[mask][last];
+    mask &= ~(1 << last);
+    last = p;
+  }
+
+  return [0, ...order, ...(end !== null ? [end] : [])];
+}
+
+// Nearest-neighbour construction followed by 2-opt improvement
+function heuristicOrder(cost: number[][], free: number[], end: number | null): number[] {
+  const remaining = new Set(free);
+  const order = [0];
+  while (remaining.size > 0) {
+    const from = order[order.length - 1];
+    let next = -1, best = Infinity;
+    for (const k of remaining) {
+      if (cost[from][k] < best || next === -1) { best = cost[from][k]; next = k; }
+    }
+    order.push(next);
+    remaining.delete(next);
+  }
+  if (end !== null) order.push(end);
+
+  // Costs can be asymmetric (one-way streets), so re-evaluate whole paths
+  const lastMovable = end !== null ? order.length - 2 : order.length - 1;
+  let improved = true;
+  let bestCost = pathCost(cost, order);
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < lastMovable; i++) {
+      for (let k = i + 1; k <= lastMovable; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        const c = pathCost(cost, candidate);
+        if (c < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = c;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Returns the visiting order as indices into the cost matrix, starting at 0.
+ * Unreachable pairs (null) are treated as infinitely expensive.
+ */
+export function optimizeVisitOrder(matrix: (number | null)[][], fixedEnd: boolean): number[] {
+  const n = matrix.length;
+  if (n <= 2) return matrix.map((_, i) => i);
+
+  const cost = matrix.map(row => row.map(c => c ?? Infinity));
+  const end = fixedEnd ? n - 1 : null;
+  const free = matrix.map((_, i) => i).filter(i => i !== 0 && i !== end);
+
+  return free.length <= EXACT_LIMIT
+    ? heldKarp(cost, free, end)
+    : heuristicOrder(cost, free, end);
+}
@@ -0,0 +1,90 @@
+import type { RoutingEngine, TaskControl } from './routing';
+import type { WorkerRequest, WorkerResponse, WorkerResults, WorkerTask } from './workerProtocol';
+
+interface PendingTask {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+  onProgress?: TaskControl['onProgress'];
+}
+
+let worker: Worker | null = null;
+let nextTaskId = 1;
+const pending = new Map<number, PendingTask>();
+
+// Started lazily so OSRM-only sessions never pay for it
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./routing.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    const task = pending.get(message.id);
+    if (!task) return; // already cancelled on this side
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'result') task.resolve(message.result as never);
+    else task.reject(new DOMException(message.message, message.aborted ? 'AbortError' : 'Error'));
+  };
+
+  worker.onerror = (e) => {
+    console.error('Routing worker crashed:', e.message);
+    for (const task of pending.values()) task.reject(new Error('Routing worker crashed'));
+    pending.clear();
+    worker = null;
+  };
+
+  return worker;
+}
+
+/**
+ * Sends one task to the routing worker. Aborting the signal cancels it on
+ * both sides: the promise rejects right away and the worker stops at its
+ * next checkpoint.
+ */
+export function runInWorker<T extends WorkerTask>(task: T, { signal, onProgress }: TaskControl = {}): Promise<WorkerResults[T['type']]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const id = nextTaskId++;
+    const target = getWorker();
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      target.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(signal!.reason);
+    };
+    // Settled tasks drop their listener, so a long-lived signal does not collect them
+    pending.set(id, {
+      resolve: result => { signal?.removeEventListener('abort', onAbort); resolve(result); },
+      reject: error => { signal?.removeEventListener('abort', onAbort); reject(error); },
+      onProgress,
+    });
+    target.postMessage({ ...task, id } satisfies WorkerRequest);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export const localEngine: RoutingEngine = {
+  id: 'local',
+  label: 'Local A*',
+  route: async (waypoints, options, control) => {
+    try {
+      return await runInWorker({ type: 'route', waypoints, options }, control);
+    } catch (error) {
+      // Only a cancelled search comes back empty; anything else carries its reason to the caller
+      if (control?.signal?.aborted) return [];
+      throw error;
+    }
+  },
+  matrix: async (sources, destinations, options, control) => {
+    try {
+      return await runInWorker({ type: 'matrix', sources, destinations, options }, control);
+    } catch (error) {
+      if (control?.signal?.aborted) return null;
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,48 @@
+import type { Coordinate, CostMatrix, RouteData, RouteElevation, RouteOptions, TaskProgress } from './routing';
+import type { OfflineNetworkInfo } from './osmImport';
+import type { BenchmarkResult, SearchTrace, TraceAlgorithm } from './dijkstra';
+import type { IsochroneMetric, IsochroneResult } from './isochrone';
+import type { NearestRoad } from './snapping';
+import type { DemTileInfo } from './elevation';
+
+// ============================================================
+// MAIN THREAD → WORKER
+// ============================================================
+export type WorkerTask =
+  | { type: 'route'; waypoints: Coordinate[]; options?: RouteOptions }
+  | { type: 'matrix'; sources: Coordinate[]; destinations: Coordinate[]; options?: RouteOptions }
+  | { type: 'benchmark'; waypoints: Coordinate[]; options?: RouteOptions }
+  | { type: 'trace'; waypoints: Coordinate[]; algorithm: TraceAlgorithm; options?: RouteOptions }
+  | { type: 'isochrone'; origin: Coordinate; budgets: number[]; metric: IsochroneMetric; options?: RouteOptions }
+  | { type: 'nearestRoad'; point: Coordinate }
+  | { type: 'import'; file: File } // File is a handle, the bytes are read inside the worker
+  | { type: 'unload' }
+  | { type: 'elevation'; file: File } // .hgt or GeoTIFF
+  | { type: 'clearElevation' }
+  | { type: 'routeElevation'; lines: [number, number][][] }; // one line per route
+
+// `cancel` carries the id of the task to stop
+export type WorkerRequest = (WorkerTask & { id: number }) | { type: 'cancel'; id: number };
+
+// What each task resolves to
+export interface WorkerResults {
+  route: RouteData[];
+  matrix: CostMatrix | null;
+  benchmark: BenchmarkResult | null;
+  trace: SearchTrace | null;
+  isochrone: IsochroneResult | null;
+  nearestRoad: NearestRoad | null;
+  import: OfflineNetworkInfo;
+  unload: null;
+  elevation: DemTileInfo;
+  clearElevation: null;
+  routeElevation: (RouteElevation | null)[] | null; // null = no tiles loaded
+}
+
+// ============================================================
+// WORKER → MAIN THREAD
+// ============================================================
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: TaskProgress }
+  | { id: number; type: 'result'; result: WorkerResults[WorkerTask['type']] }
+  | { id: number; type: 'error'; message: string; aborted: boolean };
@@ -0,0 +1,129 @@
+import type { Coordinate } from './routing';
+import { DEG_TO_RAD } from './geo';
+
+// ============================================================
+// AVOID-ZONES
+// ============================================================
+export type ZoneShape =
+  | { type: 'polygon'; points: [number, number][] } // [lat, lng], implicitly closed
+  | { type: 'circle'; center: [number, number]; radius: number }; // radius in meters
+
+export interface AvoidZone {
+  id: number;
+  name: string;
+  enabled: boolean;
+  shape: ZoneShape;
+}
+
+interface Bounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const M_PER_DEG_LAT = 110540;
+const M_PER_DEG_LNG = 111320; // at the equator
+
+function shapeBounds(shape: ZoneShape): Bounds {
+  if (shape.type === 'circle') {
+    const [lat, lng] = shape.center;
+    const dLat = shape.radius / M_PER_DEG_LAT;
+    const dLng = shape.radius / (M_PER_DEG_LNG * Math.cos(lat * DEG_TO_RAD));
+    return { minLat: lat - dLat, minLng: lng - dLng, maxLat: lat + dLat, maxLng: lng + dLng };
+  }
+  const lats = shape.points.map(p => p[0]), lngs = shape.points.map(p => p[1]);
+  return { minLat: Math.min(...lats), minLng: Math.min(...lngs), maxLat: Math.max(...lats), maxLng: Math.max(...lngs) };
+}
+
+// Ray casting; lat/lng are treated as planar, which is exact enough at city scale
+function insidePolygon(p: Coordinate, points: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [yi, xi] = points[i], [yj, xj] = points[j];
+    if ((yi > p.lat) !== (yj > p.lat) && p.lng < ((xj - xi) * (p.lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+const orientation = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) =>
+  Math.sign((bx - ax) * (cy - ay) - (by - ay) * (cx - ax));
+
+function segmentsCross(a: Coordinate, b: Coordinate, [cy, cx]: [number, number], [dy, dx]: [number, number]): boolean {
+  const o1 = orientation(a.lng, a.lat, b.lng, b.lat, cx, cy);
+  const o2 = orientation(a.lng, a.lat, b.lng, b.lat, dx, dy);
+  const o3 = orientation(cx, cy, dx, dy, a.lng, a.lat);
+  const o4 = orientation(cx, cy, dx, dy, b.lng, b.lat);
+  return o1 !== o2 && o3 !== o4;
+}
+
+// Distance from the circle's centre to the segment, in a flat projection around the centre
+function segmentNearCircle(a: Coordinate, b: Coordinate, [lat, lng]: [number, number], radius: number): boolean {
+  const kx = M_PER_DEG_LNG * Math.cos(lat * DEG_TO_RAD);
+  const ax = (a.lng - lng) * kx, ay = (a.lat - lat) * M_PER_DEG_LAT;
+  const dx = (b.lng - a.lng) * kx, dy = (b.lat - a.lat) * M_PER_DEG_LAT;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / len2)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy) <= radius;
+}
+
+/**
+ * Tests road segments against a set of zones. Bounding boxes are computed
+ * once, so scanning a whole graph stays cheap.
+ */
+export class ZoneTester {
+  private zones: { zone: AvoidZone; bounds: Bounds }[];
+
+  constructor(zones: AvoidZone[]) {
+    this.zones = zones.map(zone => ({ zone, bounds: shapeBounds(zone.shape) }));
+  }
+
+  get empty(): boolean {
+    return this.zones.length === 0;
+  }
+
+  private touches({ zone, bounds }: { zone: AvoidZone; bounds: Bounds }, a: Coordinate, b: Coordinate): boolean {
+    if (Math.max(a.lat, b.lat) < bounds.minLat || Math.min(a.lat, b.lat) > bounds.maxLat) return false;
+    if (Math.max(a.lng, b.lng) < bounds.minLng || Math.min(a.lng, b.lng) > bounds.maxLng) return false;
+
+    const { shape } = zone;
+    if (shape.type === 'circle') return segmentNearCircle(a, b, shape.center, shape.radius);
+    return insidePolygon(a, shape.points) ||
+      shape.points.some((p, i) => segmentsCross(a, b, p, shape.points[(i + 1) % shape.points.length]));
+  }
+
+  // True if the segment a → b touches any zone
+  hit(a: Coordinate, b: Coordinate): boolean {
+    return this.zones.some(entry => this.touches(entry, a, b));
+  }
+
+  // Names of every zone any of the polylines ([lat, lng] points) enters
+  entered(lines: [number, number][][]): string[] {
+    return this.zones
+      .filter(entry => lines.some(line => line.some((p, i) => {
+        const a = { lat: p[0], lng: p[1] };
+        const b = i + 1 < line.length ? { lat: line[i + 1][0], lng: line[i + 1][1] } : a;
+        return this.touches(entry, a, b);
+      })))
+      .map(({ zone }) => zone.name);
+  }
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+const STORAGE_KEY = 'city-route:zones';
+
+export function loadZones(): AvoidZone[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable saved zones', error);
+    return [];
+  }
+}
+
+export function saveZones(zones: AvoidZone[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+}
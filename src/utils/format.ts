@@ -0,0 +1,30 @@
+import type { TaskProgress } from '../services/routing';
+
+// Helper to format duration
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h > 0) return `${h}h ${m}m`;
+  return `${m}m`;
+};
+
+// Helper to format distance
+export const formatDistance = (meters: number) => {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  const km = meters / 1000;
+  return `${km.toFixed(1)} km`;
+};
+
+// Status line for a long-running routing task
+export const formatProgress = ({ stage, done, total }: TaskProgress) => {
+  const count = total ? `${done.toLocaleString()} / ${total.toLocaleString()}` : done.toLocaleString();
+  switch (stage) {
+    case 'import': return `Reading file… ${total ? Math.round((100 * done) / total) : 0}%`;
+    case 'tiles': return `Downloading road tiles… ${count}`;
+    case 'graph': return `Parsing road network… ${count} elements`;
+    case 'preprocess': return `Placing landmarks… ${count}`;
+    case 'search': return `Searching… ${count} nodes visited`;
+    case 'geocode': return `Locating addresses… ${count}`;
+  }
+};
@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { buildGraph, isTurnForbidden } from '../src/services/graph';
+import type { GraphData, OsmElement } from '../src/services/graph';
+import { PROFILES } from '../src/services/profiles';
+import type { ProfileId } from '../src/services/profiles';
+
+// ============================================================
+// FIXTURES (hand-made Overpass JSON extracts)
+// ============================================================
+interface Extract {
+  elements: OsmElement[];
+}
+
+const fixture = (name: string): Extract =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+// The extract with one way's tags replaced; `highway` and `name` stay unless overridden
+const withTags = ({ elements }: Extract, wayId: number, tags: Record<string, string>): Extract => ({
+  elements: elements.map(el =>
+    el.type === 'way' && el.id === wayId ? { ...el, tags: { highway: el.tags!.highway, name: el.tags!.name, ...tags } } : el
+  ),
+});
+
+const withoutRestrictions = ({ elements }: Extract): Extract => ({ elements: elements.filter(el => el.type !== 'relation') });
+
+/**
+ * True if the graph lets a profile drive along `path` (node ids) edge by
+ * edge, tracking the last two ways the same way the search does so via-way
+ * rules see where the via way was entered from.
+ */
+function travels({ graph, restrictions }: GraphData, path: number[]): boolean {
+  let inWay = -1, prevWay = -1;
+  for (let i = 0; i < path.length - 1; i++) {
+    const edge = graph.get(path[i])?.find(e => e.to === path[i + 1]);
+    if (!edge) return false;
+    if (inWay !== -1 && isTurnForbidden(restrictions, path[i], prevWay, inWay, edge.way)) return false;
+    if (edge.way !== inWay) [prevWay, inWay] = [inWay, edge.way];
+  }
+  return true;
+}
+
+const open = ({ elements }: Extract, profile: ProfileId = 'car') => {
+  const network = buildGraph(elements, PROFILES[profile], 'fixture');
+  return (path: number[]) => travels(network, path);
+};
+
+// ============================================================
+// ONEWAY
+// ============================================================
+// Main runs 1 → 3 → 2
+describe('oneway', () => {
+  const ALONG = [1, 3, 2], AGAINST = [2, 3, 1];
+
+  it.each([
+    ['no oneway tag', {}, true, true],
+    ['oneway=yes', { oneway: 'yes' }, true, false],
+    ['oneway=true', { oneway: 'true' }, true, false],
+    ['oneway=1', { oneway: '1' }, true, false],
+    ['oneway=-1', { oneway: '-1' }, false, true],
+    ['oneway=reversible', { oneway: 'reversible' }, false, false],
+    ['implied on a roundabout', { junction: 'roundabout' }, true, false],
+    ['implied on a motorway', { highway: 'motorway' }, true, false],
+    ['oneway=no on a roundabout', { junction: 'roundabout', oneway: 'no' }, true, true],
+  ])('%s', (_, tags, along, against) => {
+    const travel = open(withTags(fixture('oneway.json'), 10, tags));
+    expect(travel(ALONG)).toBe(along);
+    expect(travel(AGAINST)).toBe(against);
+  });
+
+  it('lets bicycles use oneway:bicycle=no against the flow', () => {
+    const extract = withTags(fixture('oneway.json'), 10, { oneway: 'yes', 'oneway:bicycle': 'no' });
+    expect(open(extract, 'car')(AGAINST)).toBe(false);
+    expect(open(extract, 'bike')(AGAINST)).toBe(true);
+  });
+
+  it('never applies to walking', () => {
+    expect(open(withTags(fixture('oneway.json'), 10, { oneway: 'yes' }), 'foot')(AGAINST)).toBe(true);
+  });
+});
+
+// ============================================================
+// TURN RESTRICTIONS
+// ============================================================
+// Crossroads at node 1 with arms West (2), East (3), North (4) and South (5);
+// a Loop 2 → 6 → 4 links West and North the long way round
+describe('turn restrictions via a node', () => {
+  const extract = fixture('restrictions-via-node.json');
+
+  it('takes every turn when there are no restrictions', () => {
+    const travel = open(withoutRestrictions(extract));
+    expect(travel([2, 1, 4])).toBe(true);
+    expect(travel([5, 1, 3])).toBe(true);
+    expect(travel([3, 1, 5])).toBe(true);
+  });
+
+  it('forbids the turn a no_* restriction names and nothing else', () => {
+    const travel = open(extract);
+    expect(travel([2, 1, 4])).toBe(false); // no left turn from West onto North
+    expect(travel([2, 6, 4])).toBe(true);
+    expect(travel([2, 1, 3])).toBe(true);
+    expect(travel([2, 1, 5])).toBe(true);
+  });
+
+  it('allows only the exit an only_* restriction names', () => {
+    const travel = open(extract);
+    expect(travel([5, 1, 4])).toBe(true); // only straight on from South
+    expect(travel([5, 1, 3])).toBe(false);
+    expect(travel([5, 1, 2])).toBe(false);
+  });
+
+  it('exempts the modes listed in except=', () => {
+    expect(open(extract, 'car')([3, 1, 5])).toBe(false); // no left turn from East onto South, except bicycles
+    expect(open(extract, 'bike')([3, 1, 5])).toBe(true);
+  });
+});
+
+// First (1 → 2), then Link (2 → 3), then Last (3 → 4); Bypass 2 → 5 → 4
+describe('turn restrictions via a way', () => {
+  const extract = fixture('restrictions-via-way.json');
+
+  it('takes the turn when there is no restriction', () => {
+    expect(open(withoutRestrictions(extract))([1, 2, 3, 4])).toBe(true);
+  });
+
+  it('forbids the exit when the via way was entered from the from way', () => {
+    const travel = open(extract);
+    expect(travel([1, 2, 3, 4])).toBe(false);
+    expect(travel([1, 2, 5, 4])).toBe(true);
+  });
+
+  it('allows the same exit when the via way is entered any other way', () => {
+    const travel = open(extract);
+    expect(travel([2, 3, 4])).toBe(true);
+    expect(travel([1, 2, 3])).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { computeDijkstraRoute, importOsmFile, setLogger, setOfflineNetwork } from '../src/core';
+import type { OsmElement, ProfileId } from '../src/core';
+
+// ============================================================
+// FIXTURES (hand-made Overpass JSON extracts)
+// ============================================================
+interface Extract {
+  elements: OsmElement[];
+}
+
+setLogger({ info() {}, warn() {}, error() {} });
+
+const fixture = (name: string): Extract =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+// The extract with one way's tags replaced; `highway` and `name` stay unless overridden
+const withTags = ({ elements }: Extract, wayId: number, tags: Record<string, string>): Extract => ({
+  elements: elements.map(el =>
+    el.type === 'way' && el.id === wayId ? { ...el, tags: { highway: el.tags!.highway, name: el.tags!.name, ...tags } } : el
+  ),
+});
+
+const withoutRestrictions = ({ elements }: Extract): Extract => ({ elements: elements.filter(el => el.type !== 'relation') });
+
+type Route = (from: number, to: number, profile?: ProfileId) => Promise<number[] | null>;
+
+/**
+ * Loads an extract as the offline network, through the same import as a
+ * dropped file, and returns a router between its node ids. Waypoints sit on
+ * nodes, so the best route's geometry maps straight back to node ids.
+ */
+async function open({ elements }: Extract): Promise<Route> {
+  setOfflineNetwork(await importOsmFile(new File([JSON.stringify({ elements })], 'fixture.json')));
+  const nodes = elements.filter(el => el.type === 'node');
+  const coords = new Map(nodes.map(n => [n.id, { lat: n.lat!, lng: n.lon! }]));
+  const ids = new Map(nodes.map(n => [`${n.lat},${n.lon}`, n.id]));
+
+  return async (from, to, profile = 'car') => {
+    const [best] = await computeDijkstraRoute([coords.get(from)!, coords.get(to)!], { objective: 'shortest', profile });
+    return best ? best.geometry.map(([lat, lng]) => ids.get(`${lat},${lng}`)!) : null;
+  };
+}
+
+// ============================================================
+// ONEWAY
+// ============================================================
+// Main runs 1 → 3 → 2; the Detour 1 → 4 → 5 → 2 is twice as long and open both ways
+describe('oneway', () => {
+  const MAIN = [1, 3, 2], MAIN_BACK = [2, 3, 1];
+  const DETOUR = [1, 4, 5, 2], DETOUR_BACK = [2, 5, 4, 1];
+
+  it.each([
+    ['no oneway tag', {}, MAIN, MAIN_BACK],
+    ['oneway=yes', { oneway: 'yes' }, MAIN, DETOUR_BACK],
+    ['oneway=true', { oneway: 'true' }, MAIN, DETOUR_BACK],
+    ['oneway=1', { oneway: '1' }, MAIN, DETOUR_BACK],
+    ['oneway=-1', { oneway: '-1' }, DETOUR, MAIN_BACK],
+    ['oneway=reversible', { oneway: 'reversible' }, DETOUR, DETOUR_BACK],
+    ['implied on a roundabout', { junction: 'roundabout' }, MAIN, DETOUR_BACK],
+    ['implied on a motorway', { highway: 'motorway' }, MAIN, DETOUR_BACK],
+    ['oneway=no on a roundabout', { junction: 'roundabout', oneway: 'no' }, MAIN, MAIN_BACK],
+  ])('%s', async (_, tags, along, against) => {
+    const route = await open(withTags(fixture('oneway.json'), 10, tags));
+    expect(await route(1, 2)).toEqual(along);
+    expect(await route(2, 1)).toEqual(against);
+  });
+
+  it('lets bicycles use oneway:bicycle=no against the flow', async () => {
+    const route = await open(withTags(fixture('oneway.json'), 10, { oneway: 'yes', 'oneway:bicycle': 'no' }));
+    expect(await route(2, 1, 'car')).toEqual(DETOUR_BACK);
+    expect(await route(2, 1, 'bike')).toEqual(MAIN_BACK);
+  });
+
+  it('never applies to walking', async () => {
+    const route = await open(withTags(fixture('oneway.json'), 10, { oneway: 'yes' }));
+    expect(await route(2, 1, 'foot')).toEqual(MAIN_BACK);
+  });
+});
+
+// ============================================================
+// TURN RESTRICTIONS
+// ============================================================
+// Crossroads at node 1 with arms West (2), East (3), North (4) and South (5),
+// West a little longer than the others; a Loop 2 → 6 → 4 links West and North
+// the long way round. Blocked turns are made by turning back at the end of an arm.
+describe('turn restrictions via a node', () => {
+  const extract = fixture('restrictions-via-node.json');
+
+  it('takes every turn when there are no restrictions', async () => {
+    const route = await open(withoutRestrictions(extract));
+    expect(await route(2, 4)).toEqual([2, 1, 4]);
+    expect(await route(5, 3)).toEqual([5, 1, 3]);
+    expect(await route(3, 5)).toEqual([3, 1, 5]);
+  });
+
+  it('forbids the turn a no_* restriction names and nothing else', async () => {
+    const route = await open(extract);
+    expect(await route(2, 4)).toEqual([2, 6, 4]); // no left turn from West onto North
+    expect(await route(2, 3)).toEqual([2, 1, 3]);
+    expect(await route(2, 5)).toEqual([2, 1, 5]);
+  });
+
+  it('allows only the exit an only_* restriction names', async () => {
+    const route = await open(extract);
+    expect(await route(5, 4)).toEqual([5, 1, 4]); // only straight on from South
+    expect(await route(5, 3)).toEqual([5, 1, 4, 1, 3]);
+    expect(await route(5, 2)).toEqual([5, 1, 4, 1, 2]);
+  });
+
+  it('exempts the modes listed in except=', async () => {
+    const route = await open(extract);
+    expect(await route(3, 5, 'car')).toEqual([3, 1, 4, 1, 5]); // no left turn from East onto South, except bicycles
+    expect(await route(3, 5, 'bike')).toEqual([3, 1, 5]);
+  });
+});
+
+// First (1 → 2), then Link (2 → 3), then Last (3 → 4); Bypass 2 → 5 → 4 is longer
+describe('turn restrictions via a way', () => {
+  const extract = fixture('restrictions-via-way.json');
+
+  it('takes the turn when there is no restriction', async () => {
+    const route = await open(withoutRestrictions(extract));
+    expect(await route(1, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('forbids the exit when the via way was entered from the from way', async () => {
+    const route = await open(extract);
+    expect(await route(1, 4)).toEqual([1, 2, 5, 4]);
+  });
+
+  it('allows the same exit when the via way is entered any other way', async () => {
+    const route = await open(extract);
+    expect(await route(2, 4)).toEqual([2, 3, 4]);
+    expect(await route(1, 3)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('route labels', () => {
+  it('names the imported extract a route was computed on', async () => {
+    const { elements } = fixture('oneway.json');
+    setOfflineNetwork(await importOsmFile(new File([JSON.stringify({ elements })], 'oneway.json')));
+    const [best] = await computeDijkstraRoute([{ lat: 0, lng: 0 }, { lat: 0, lng: 0.002 }], { objective: 'shortest', profile: 'car' });
+    expect(best.algorithm).toBe('A* (imported extract oneway.json, shortest)');
+  });
+});
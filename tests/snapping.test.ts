@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { computeDijkstraRoute, importOsmFile, setLogger, setOfflineNetwork } from '../src/core';
+import type { Coordinate, RouteData } from '../src/core';
+
+setLogger({ info() {}, warn() {}, error() {} });
+
+// A runs 1 → 2 → 3 along the equator, B climbs 3 → 4, and C cuts 2 → 5 → 4
+beforeAll(async () => {
+  const text = readFileSync(new URL('./fixtures/split-edge.json', import.meta.url), 'utf8');
+  setOfflineNetwork(await importOsmFile(new File([text], 'split-edge.json')));
+});
+
+const route = (from: Coordinate, to: Coordinate) => computeDijkstraRoute([from, to], { objective: 'shortest', profile: 'car' });
+
+// Every step but the final arrival covers some ground
+const emptySteps = (r: RouteData) => r.steps.filter(s => s.maneuver.type !== 'arrive' && s.distance === 0);
+
+describe('waypoints on a split segment', () => {
+  it.each([
+    ['on OSM nodes', { lat: 0, lng: 0 }, { lat: 0.001, lng: 0.002 }],
+    ['partway along segments', { lat: 0, lng: 0.0004 }, { lat: 0.0006, lng: 0.002 }],
+  ])('offers only distinct alternatives %s', async (_, from, to) => {
+    const routes = await route(from, to);
+    expect(routes.map(r => JSON.stringify(r.geometry))).toEqual([
+      ...new Set(routes.map(r => JSON.stringify(r.geometry))),
+    ]);
+    expect(routes.length).toBe(2); // along A then B, or cutting across on C
+    for (const r of routes) expect(emptySteps(r)).toEqual([]);
+  });
+
+  it('starts and ends on the OSM node a waypoint lands on', async () => {
+    const routes = await route({ lat: 0, lng: 0 }, { lat: 0.001, lng: 0.001 });
+    expect(routes).toHaveLength(1);
+    expect(routes[0].geometry).toEqual([[0, 0], [0, 0.001], [0.001, 0.001]]);
+    expect(routes[0].steps.map(s => s.instruction)).toEqual(['depart on A', 'turn left on C', 'arrive on C']);
+  });
+});
+
+// Eastbound runs along the equator and Westbound ~11 m north of it, joined at both ends
+describe('waypoints between the carriageways of a divided road', () => {
+  beforeAll(async () => {
+    const text = readFileSync(new URL('./fixtures/dual-carriageway.json', import.meta.url), 'utf8');
+    setOfflineNetwork(await importOsmFile(new File([text], 'dual-carriageway.json')));
+  });
+
+  it.each([
+    ['east', { lat: 0.00006, lng: 0.001 }, { lat: 0.00006, lng: 0.005 }, 0],
+    ['west', { lat: 0.00004, lng: 0.005 }, { lat: 0.00004, lng: 0.001 }, 0.0001],
+  ])('travelling %s start and end on the carriageway going that way, even when the other is nearer', async (_, from, to, lat) => {
+    const [best] = await route(from, to);
+    expect(best.snapped.map(([snappedLat]) => snappedLat)).toEqual([lat, lat]);
+    expect(best.geometry.every(([pointLat]) => pointLat === lat)).toBe(true);
+    expect(best.distance).toBeLessThan(450);
+  });
+});
@@ -3,6 +3,8 @@ import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react(), tailwindcss()],
-})
+  // The CLI bundle (npm run build:cli) has no use for the app's static assets
+  build: { copyPublicDir: !isSsrBuild },
+}))